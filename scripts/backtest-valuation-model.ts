@@ -0,0 +1,134 @@
+// Measures how far the valuation model's estimates land from real sale prices.
+//
+// Against sold listings in the database:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-read scripts/backtest-valuation-model.ts
+//
+// Against a CSV of sold properties (same columns as scripts/fixtures/sold-listings.csv):
+//   deno run --allow-read scripts/backtest-valuation-model.ts --csv scripts/fixtures/sold-listings.csv
+//
+// Options:
+//   --model <path>   value with another model JSON instead of the shipped one, to compare candidates
+//   --holdout        refit without each property before valuing it (leave-one-out). The shipped
+//                    model was trained on every listing, sold ones included, so without this the
+//                    numbers flatter it. Refits use the current training code, so it can't be
+//                    combined with --model.
+//   --json <path>    also write the full report as JSON, for diffing two runs (needs --allow-write)
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { rowsFromCsv } from './listingsCsv.ts';
+import { ValuationModel } from '../supabase/functions/_shared/valuationModel.ts';
+import {
+  BacktestReport,
+  BacktestRow,
+  ErrorSummary,
+  holdoutPredictor,
+  modelPredictor,
+  runBacktest,
+} from '../supabase/functions/_shared/backtestValuation.ts';
+
+const SHIPPED_MODEL = new URL('../supabase/functions/_shared/valuation-model.json', import.meta.url);
+
+function option(name: string) {
+  const index = Deno.args.indexOf(`--${name}`);
+  return index === -1 ? undefined : Deno.args[index + 1];
+}
+
+// Returns the sold rows to value and the rows a holdout refit may train on
+async function loadFromDatabase(): Promise<{ sold: BacktestRow[]; training: BacktestRow[] }> {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data, error } = await supabase
+    .from('properties')
+    .select('id, status, property_type, price, area_sqft, bedrooms, bathrooms, city, state, year_built, parking_spaces, furnished, pet_friendly, amenities');
+
+  if (error) {
+    console.error('Error fetching properties:', error);
+    Deno.exit(1);
+  }
+
+  const rows = data.map((row) => ({
+    id: row.id,
+    status: row.status,
+    propertyType: row.property_type,
+    price: Number(row.price),
+    area: row.area_sqft,
+    bedrooms: row.bedrooms,
+    bathrooms: row.bathrooms,
+    city: row.city,
+    state: row.state,
+    yearBuilt: row.year_built,
+    parkingSpaces: row.parking_spaces,
+    furnished: row.furnished,
+    petFriendly: row.pet_friendly,
+    amenities: Array.isArray(row.amenities) ? row.amenities.map(String) : [],
+  }));
+
+  return { sold: rows.filter((row) => row.status === 'sold'), training: rows };
+}
+
+const money = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+function printTable(title: string, groups: (ErrorSummary & { key: string })[]) {
+  console.log(`\n${title}`);
+  console.table(
+    Object.fromEntries(
+      groups.map((group) => [
+        group.key,
+        {
+          n: group.count,
+          MAE: money(group.mae),
+          MAPE: `${group.mape}%`,
+          'median error': money(group.medianAbsoluteError),
+          'within ±10%': `${group.within10}%`,
+        },
+      ])
+    )
+  );
+}
+
+const csvPath = option('csv');
+const modelPath = option('model');
+const jsonPath = option('json');
+const holdout = Deno.args.includes('--holdout');
+
+if (holdout && modelPath) {
+  console.error('--holdout refits the model itself, so it cannot score the model given with --model');
+  Deno.exit(1);
+}
+
+const { sold, training } = csvPath
+  ? (() => {
+      const rows = rowsFromCsv(Deno.readTextFileSync(csvPath));
+      return { sold: rows, training: rows };
+    })()
+  : await loadFromDatabase();
+
+if (sold.length === 0) {
+  console.error('No sold properties to backtest against');
+  Deno.exit(1);
+}
+
+const model: ValuationModel = JSON.parse(await Deno.readTextFile(modelPath ?? SHIPPED_MODEL));
+
+const report: BacktestReport = runBacktest(sold, holdout ? holdoutPredictor(training) : modelPredictor(model), {
+  modelVersion: holdout ? `leave-one-out refits on ${training.length - 1} properties` : model.version,
+  holdout,
+});
+
+console.log(`Backtest of ${report.modelVersion} on ${report.overall.count} sold properties from ${csvPath ?? 'the database'}`);
+printTable('Overall', [{ key: 'all', ...report.overall }]);
+printTable('By city', report.byCity);
+printTable('By property type', report.byPropertyType);
+
+if (report.skipped.length > 0) {
+  console.log(`\nSkipped ${report.skipped.length}:`);
+  report.skipped.forEach(({ id, reason }) => console.log(`  ${id}: ${reason}`));
+}
+
+if (jsonPath) {
+  await Deno.writeTextFile(jsonPath, JSON.stringify(report, null, 2) + '\n');
+  console.log(`\nWrote ${jsonPath}`);
+}
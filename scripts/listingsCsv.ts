@@ -0,0 +1,30 @@
+// Reads sold properties in the format of scripts/fixtures/sold-listings.csv
+import { parseCsvRecords } from '../src/lib/csv.ts';
+import { BacktestRow } from '../supabase/functions/_shared/backtestValuation.ts';
+
+const toBoolean = (value: string | undefined) => ['yes', 'y', 'true', '1'].includes((value ?? '').trim().toLowerCase());
+const toNumber = (value: string | undefined) => (value && value.trim() !== '' ? Number(value) : null);
+
+export function rowsFromCsv(text: string): BacktestRow[] {
+  const [header, ...records] = parseCsvRecords(text);
+  const columns = (header?.fields ?? []).map((name) => name.trim());
+
+  return records.map((record) => {
+    const value = (column: string) => record.fields[columns.indexOf(column)]?.trim();
+    return {
+      id: value('id') || `line ${record.line}`,
+      propertyType: value('propertyType') ?? '',
+      price: Number(value('price')),
+      area: Number(value('area')),
+      bedrooms: Number(value('bedrooms')),
+      bathrooms: Number(value('bathrooms')),
+      city: value('city') ?? '',
+      state: value('state') ?? '',
+      yearBuilt: toNumber(value('yearBuilt')),
+      parkingSpaces: toNumber(value('parkingSpaces')),
+      furnished: toBoolean(value('furnished')),
+      petFriendly: toBoolean(value('petFriendly')),
+      amenities: (value('amenities') ?? '').split(';').map((amenity) => amenity.trim()).filter(Boolean),
+    };
+  });
+}
@@ -0,0 +1,68 @@
+// Fits the valuation model used by the predict-price function.
+//
+// On the current listings:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-write scripts/train-valuation-model.ts
+//
+// On a CSV of sold properties (same columns as scripts/fixtures/sold-listings.csv), e.g. an
+// MLS export, which is usually far larger than the listings table:
+//   deno run --allow-read --allow-write scripts/train-valuation-model.ts --csv sold.csv
+//
+// Commit the regenerated supabase/functions/_shared/valuation-model.json and redeploy.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { rowsFromCsv } from './listingsCsv.ts';
+import { TrainingRow, trainValuationModel } from '../supabase/functions/_shared/trainValuationModel.ts';
+import { ValuationModel } from '../supabase/functions/_shared/valuationModel.ts';
+
+const OUTPUT = new URL('../supabase/functions/_shared/valuation-model.json', import.meta.url);
+
+// Below this the priors still dominate most coefficients and the intervals stay wide
+const RECOMMENDED_MIN_ROWS = 200;
+
+async function loadFromDatabase(): Promise<TrainingRow[]> {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Sold and pending prices are still real market evidence, so train on every listing
+  const { data, error } = await supabase
+    .from('properties')
+    .select('property_type, price, area_sqft, bedrooms, bathrooms, city, state, year_built, parking_spaces, furnished, pet_friendly, amenities');
+
+  if (error) {
+    console.error('Error fetching properties:', error);
+    Deno.exit(1);
+  }
+
+  return data.map((row) => ({
+    propertyType: row.property_type,
+    price: Number(row.price),
+    area: row.area_sqft,
+    bedrooms: row.bedrooms,
+    bathrooms: row.bathrooms,
+    city: row.city,
+    state: row.state,
+    yearBuilt: row.year_built,
+    parkingSpaces: row.parking_spaces,
+    furnished: row.furnished,
+    petFriendly: row.pet_friendly,
+    amenities: Array.isArray(row.amenities) ? row.amenities.map(String) : [],
+  }));
+}
+
+const csvIndex = Deno.args.indexOf('--csv');
+const csvPath = csvIndex === -1 ? undefined : Deno.args[csvIndex + 1];
+
+const rows = csvPath ? rowsFromCsv(await Deno.readTextFile(csvPath)) : await loadFromDatabase();
+const model: ValuationModel = { ...trainValuationModel(rows), trainedOn: csvPath ? 'csv' : 'database' };
+
+await Deno.writeTextFile(OUTPUT, JSON.stringify(model, null, 2) + '\n');
+console.log(`Trained ${model.version} on ${model.sampleSize} properties (sigma ${model.sigma})`);
+
+if (model.sampleSize < RECOMMENDED_MIN_ROWS) {
+  console.warn(
+    `Only ${model.sampleSize} properties: estimates will lean on the priors. ` +
+      `Train on at least ${RECOMMENDED_MIN_ROWS} sales before shipping.`
+  );
+}
@@ -0,0 +1,19 @@
+// Stores the valuation model's estimate on every available listing, which the listing
+// cards compare with the asking price to show a deal score.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env scripts/value-listings.ts [--all]
+//
+// The value-listings function does the same every 15 minutes for new, edited and not yet
+// revalued listings. Run this after retraining to fill scores in right away, or with --all
+// to revalue every listing.
+import { valueListings } from '../supabase/functions/_shared/listingValuations.ts';
+
+try {
+  const { due, valued, modelVersion } = await valueListings({ all: Deno.args.includes('--all') });
+  console.log(`Valued ${valued} of ${due} listings with ${modelVersion}`);
+  if (valued < due) Deno.exit(1);
+} catch (error) {
+  console.error('Error valuing listings:', error);
+  Deno.exit(1);
+}
@@ -11,7 +11,18 @@ import { lazy, Suspense } from "react";
 const Home = lazy(() => import("./pages/Home"));
 const Auth = lazy(() => import("./pages/Auth"));
 const Properties = lazy(() => import("./pages/Properties"));
+const PropertyDetail = lazy(() => import("./pages/PropertyDetail"));
+const MapView = lazy(() => import("./pages/MapView"));
 const PricePrediction = lazy(() => import("./pages/PricePrediction"));
+const Chat = lazy(() => import("./pages/Chat"));
+const Favorites = lazy(() => import("./pages/Favorites"));
+const Profile = lazy(() => import("./pages/Profile"));
+const Settings = lazy(() => import("./pages/Settings"));
+const Notifications = lazy(() => import("./pages/Notifications"));
+const SavedSearches = lazy(() => import("./pages/SavedSearches"));
+const ValuationHistory = lazy(() => import("./pages/ValuationHistory"));
+const BatchValuation = lazy(() => import("./pages/BatchValuation"));
+const HomeValues = lazy(() => import("./pages/HomeValues"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
@@ -30,7 +41,18 @@ const App = () => (
                 <Route path="/" element={<Home />} />
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/properties" element={<Properties />} />
+                <Route path="/property/:id" element={<PropertyDetail />} />
+                <Route path="/map" element={<MapView />} />
                 <Route path="/price-prediction" element={<PricePrediction />} />
+                <Route path="/price-prediction/batch" element={<BatchValuation />} />
+                <Route path="/chat" element={<Chat />} />
+                <Route path="/favorites" element={<Favorites />} />
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/notifications" element={<Notifications />} />
+                <Route path="/saved-searches" element={<SavedSearches />} />
+                <Route path="/valuations" element={<ValuationHistory />} />
+                <Route path="/my-homes" element={<HomeValues />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </Suspense>
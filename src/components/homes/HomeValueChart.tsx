@@ -0,0 +1,89 @@
+import { format } from "date-fns";
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { HomeValuation } from "@/lib/trackedHomes";
+
+const chartConfig = {
+  value: {
+    label: "Estimated value",
+    color: "hsl(var(--primary))",
+  },
+  range: {
+    label: "90% range",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatCompactPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(price);
+};
+
+interface HomeValueChartProps {
+  valuations: HomeValuation[];
+}
+
+export const HomeValueChart = ({ valuations }: HomeValueChartProps) => {
+  const data = valuations.map((valuation) => ({
+    date: new Date(valuation.created_at).getTime(),
+    value: Number(valuation.estimated_price),
+    range: [Number(valuation.price_min), Number(valuation.price_max)],
+  }));
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No valuations yet.</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+      <ComposedChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value) => format(new Date(value), 'MMM d')}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          tickFormatter={(value) => formatCompactPrice(Number(value))}
+          tickLine={false}
+          axisLine={false}
+          width={60}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                payload?.[0] ? format(new Date(payload[0].payload.date), 'MMM d, yyyy') : ''
+              }
+              formatter={(value, name) =>
+                name === 'range' && Array.isArray(value)
+                  ? `90% range ${formatPrice(Number(value[0]))} - ${formatPrice(Number(value[1]))}`
+                  : formatPrice(Number(value))
+              }
+            />
+          }
+        />
+        <Area dataKey="range" type="stepAfter" fill="var(--color-range)" fillOpacity={0.1} stroke="none" />
+        <Line dataKey="value" type="stepAfter" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
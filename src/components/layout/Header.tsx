@@ -2,7 +2,6 @@ import { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,17 +13,20 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   Search, 
   Heart, 
-  Bell, 
   User, 
   LogOut, 
   Settings, 
   Home as HomeIcon,
   Map,
-  Calculator
+  Calculator,
+  Bookmark,
+  History,
+  LineChart
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { NotificationBell } from "@/components/layout/NotificationBell";
 
 export const Header = () => {
   const { user, profile } = useAuth();
@@ -122,36 +124,7 @@ export const Header = () => {
                 </Link>
               </Button>
               
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" size="icon" className="relative">
-                    <Bell className="h-5 w-5" />
-                    <Badge 
-                      variant="destructive" 
-                      className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 text-xs"
-                    >
-                      3
-                    </Badge>
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-80">
-                  <div className="p-4 pb-2">
-                    <h4 className="text-sm font-semibold">Notifications</h4>
-                  </div>
-                  <DropdownMenuItem>
-                    <div className="space-y-1">
-                      <p className="text-sm">New property matches your preferences</p>
-                      <p className="text-xs text-muted-foreground">2 minutes ago</p>
-                    </div>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem>
-                    <div className="space-y-1">
-                      <p className="text-sm">Price drop on saved property</p>
-                      <p className="text-xs text-muted-foreground">1 hour ago</p>
-                    </div>
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+              <NotificationBell />
 
               {/* User Menu */}
               <DropdownMenu>
@@ -194,6 +167,24 @@ export const Header = () => {
                       Saved Properties
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/saved-searches" className="cursor-pointer">
+                      <Bookmark className="mr-2 h-4 w-4" />
+                      Saved Searches
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/valuations" className="cursor-pointer">
+                      <History className="mr-2 h-4 w-4" />
+                      Valuation History
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/my-homes" className="cursor-pointer">
+                      <LineChart className="mr-2 h-4 w-4" />
+                      My Homes
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer">
                     <LogOut className="mr-2 h-4 w-4" />
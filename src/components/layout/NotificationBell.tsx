@@ -0,0 +1,77 @@
+import { useNavigate, Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+import { NotificationItem } from "@/components/notifications/NotificationItem";
+import { useNotifications, Notification, notificationLink } from "@/hooks/useNotifications";
+
+export const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead } = useNotifications(8);
+
+  const handleSelect = async (notification: Notification) => {
+    await markAsRead(notification.id);
+    const link = notificationLink(notification);
+    if (link) {
+      navigate(link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge 
+              variant="destructive" 
+              className="absolute -top-1 -right-1 h-5 min-w-5 justify-center rounded-full px-1 text-xs"
+            >
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between p-4 pb-2">
+          <h4 className="text-sm font-semibold">Notifications</h4>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllAsRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        {loading ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">Loading...</p>
+        ) : notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="cursor-pointer"
+                onSelect={() => handleSelect(notification)}
+              >
+                <NotificationItem notification={notification} compact />
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/notifications" className="cursor-pointer justify-center text-sm">
+            View all notifications
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,44 @@
+import { formatDistanceToNow } from "date-fns";
+import { Bell, Home, LineChart, Search, TrendingDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Notification } from "@/hooks/useNotifications";
+
+const typeIcons: Record<string, typeof Bell> = {
+  price_change: TrendingDown,
+  property_match: Search,
+  new_listing: Home,
+  home_value: LineChart,
+  general: Bell,
+};
+
+interface NotificationItemProps {
+  notification: Notification;
+  compact?: boolean;
+}
+
+export const NotificationItem = ({ notification, compact = false }: NotificationItemProps) => {
+  const Icon = typeIcons[notification.type] ?? Bell;
+
+  return (
+    <div className="flex w-full items-start gap-3">
+      <div
+        className={cn(
+          "mt-0.5 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full",
+          notification.read ? "bg-muted text-muted-foreground" : "bg-primary/10 text-primary"
+        )}
+      >
+        <Icon className="h-4 w-4" />
+      </div>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-start justify-between gap-2">
+          <p className={cn("text-sm", !notification.read && "font-semibold")}>{notification.title}</p>
+          {!notification.read && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary" />}
+        </div>
+        <p className={cn("text-sm text-muted-foreground", compact && "line-clamp-2")}>{notification.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { Bar, BarChart, CartesianGrid, Cell, LabelList, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { Contributions } from "@/lib/predictionSchema";
+import { BASELINE_DESCRIPTION, waterfallSteps, WaterfallStep, WaterfallStepKind } from "@/lib/contributions";
+
+const STEP_COLORS: Record<WaterfallStepKind, string> = {
+  baseline: "hsl(var(--muted-foreground))",
+  increase: "hsl(var(--success))",
+  decrease: "hsl(var(--destructive))",
+  total: "hsl(var(--primary))",
+};
+
+const chartConfig: ChartConfig = {
+  size: { label: 'Contribution' },
+};
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatCompact = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact' }).format(price);
+
+const formatStep = (step: WaterfallStep) => {
+  if (step.kind === 'baseline' || step.kind === 'total') return formatPrice(step.amount);
+  return `${step.amount > 0 ? '+' : '-'}${formatPrice(Math.abs(step.amount))}`;
+};
+
+interface PriceWaterfallProps {
+  contributions: Contributions;
+}
+
+// Each feature is drawn as a floating bar from the running price before it to the price after it
+export const PriceWaterfall = ({ contributions }: PriceWaterfallProps) => {
+  const steps = waterfallSteps(contributions);
+  const data = steps.map((step) => ({
+    ...step,
+    offset: Math.min(step.from, step.to),
+    size: Math.abs(step.to - step.from),
+    display: formatStep(step),
+  }));
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: data.length * 36 + 24 }}>
+        <BarChart data={data} layout="vertical" margin={{ left: 0, right: 80 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatCompact} />
+          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={100} />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              const step = payload?.[0]?.payload as WaterfallStep | undefined;
+              if (!active || !step) return null;
+              return (
+                <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  <div className="font-medium">{step.label}</div>
+                  <div className="text-muted-foreground">
+                    {step.kind === 'baseline' || step.kind === 'total'
+                      ? formatPrice(step.amount)
+                      : `${formatStep(step)} (${formatPrice(step.from)} → ${formatPrice(step.to)})`}
+                  </div>
+                </div>
+              );
+            }}
+          />
+          <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="size" stackId="waterfall" radius={2}>
+            {data.map((step) => (
+              <Cell key={step.label} fill={STEP_COLORS[step.kind]} />
+            ))}
+            <LabelList dataKey="display" position="right" className="fill-foreground" fontSize={12} />
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        Starts from the model's baseline, {BASELINE_DESCRIPTION}, and adds the effect of each feature in turn.
+        Features that don't change the price are left out.
+      </p>
+    </div>
+  );
+};
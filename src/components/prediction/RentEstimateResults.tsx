@@ -0,0 +1,106 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DollarSign, Info, MapPin } from "lucide-react";
+import { RentPredictionResult } from "@/lib/predictionSchema";
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const leaseTermLabel = (months: number) => (months === 1 ? 'Month-to-month' : `${months}-month lease`);
+
+interface RentEstimateResultsProps {
+  prediction: RentPredictionResult;
+}
+
+export const RentEstimateResults = ({ prediction }: RentEstimateResultsProps) => {
+  return (
+    <>
+      {/* Main Estimate */}
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center text-primary">
+            <DollarSign className="h-5 w-5 mr-2" />
+            Estimated Monthly Rent
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-center space-y-2">
+            <div className="text-4xl font-bold text-primary">
+              {formatPrice(prediction.monthlyRent)}
+              <span className="text-lg font-medium text-muted-foreground">/mo</span>
+            </div>
+            <div className="text-muted-foreground">
+              {prediction.intervalLevel}% range: {formatPrice(prediction.rentRange.min)} - {formatPrice(prediction.rentRange.max)}
+            </div>
+            <Badge variant="secondary">
+              {prediction.confidence}% Confidence
+            </Badge>
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-center">
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-xl font-semibold">{prediction.grossYield.toFixed(1)}%</div>
+              <div className="text-xs text-muted-foreground">Gross yield</div>
+            </div>
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="text-xl font-semibold">{formatPrice(prediction.saleEstimate)}</div>
+              <div className="text-xs text-muted-foreground">Sale estimate</div>
+            </div>
+          </div>
+          <p className="flex items-start text-xs text-muted-foreground">
+            <Info className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+            Rent is the sale estimate from model {prediction.model.version} times the gross yield of{' '}
+            {prediction.rentalSampleSize} {prediction.rentalSampleSize === 1 ? 'rental' : 'rentals'} in this state,
+            adjusted for lease term and utilities. Gross yield is a year's rent before costs as a share of the sale estimate.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Rental Comparables */}
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <MapPin className="h-5 w-5 mr-2" />
+            Rental Comparables
+          </CardTitle>
+          <CardDescription>
+            Rentals most similar to yours
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {prediction.comparableRentals.length === 0 && (
+              <p className="text-sm text-muted-foreground">No comparable rentals found.</p>
+            )}
+            {prediction.comparableRentals.map((comp) => (
+              <div key={comp.id} className="flex justify-between items-center gap-4 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <div className="font-medium">
+                    {formatPrice(comp.monthlyRent)}/mo
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      {leaseTermLabel(comp.leaseTermMonths)}
+                      {comp.utilitiesIncluded && ', utilities included'}
+                    </span>
+                  </div>
+                  <div className="text-sm truncate">{comp.title}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {comp.bedrooms === 0 ? 'Studio' : `${comp.bedrooms} bd`} · {comp.bathrooms} ba · {comp.areaSqft} sqft ·{' '}
+                    {comp.distanceMiles !== null ? `${comp.distanceMiles.toFixed(1)} miles` : `${comp.city}, ${comp.state}`}
+                  </div>
+                </div>
+                <Badge variant="outline" className="shrink-0">
+                  {comp.similarity}% match
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
@@ -0,0 +1,403 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { FlaskConical, Loader2, Pencil, Play, Plus, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AMENITIES,
+  CONTRIBUTION_FEATURES,
+  Contributions,
+  PredictionQuota,
+  PredictionResult,
+  predictionResultSchema,
+  ValuationRequest,
+  valuationRequestSchema,
+} from "@/lib/predictionSchema";
+import { CONTRIBUTION_LABELS } from "@/lib/contributions";
+import {
+  createScenario,
+  describeScenarioChanges,
+  MAX_SCENARIOS,
+  Scenario,
+  SCENARIO_PRESETS,
+} from "@/lib/scenarios";
+
+const SERIES_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--destructive))",
+  "hsl(var(--primary-glow))",
+];
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatCompact = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact' }).format(price);
+
+const formatSigned = (amount: number) => `${amount > 0 ? '+' : amount < 0 ? '-' : ''}${formatPrice(Math.abs(amount))}`;
+
+const NUMERIC_FIELDS: { field: 'bedrooms' | 'bathrooms' | 'area' | 'parkingSpaces'; label: string; step: number }[] = [
+  { field: 'bedrooms', label: 'Beds', step: 1 },
+  { field: 'bathrooms', label: 'Baths', step: 0.5 },
+  { field: 'area', label: 'Sq ft', step: 50 },
+  { field: 'parkingSpaces', label: 'Parking', step: 1 },
+];
+
+interface WhatIfScenariosProps {
+  baseInput: ValuationRequest;
+  basePrediction: PredictionResult;
+  disabled: boolean;
+  onQuotaChange: (quota: PredictionQuota) => void;
+}
+
+export const WhatIfScenarios = ({ baseInput, basePrediction, disabled, onQuotaChange }: WhatIfScenariosProps) => {
+  const { toast } = useToast();
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const updateScenario = (id: string, updates: Partial<Scenario>) => {
+    setScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, ...updates } : s)));
+  };
+
+  // Any change to the inputs invalidates the previous result
+  const updateInput = (id: string, updates: Partial<ValuationRequest>) => {
+    setScenarios((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, input: { ...s.input, ...updates }, result: null } : s))
+    );
+  };
+
+  const addScenario = (name: string, input: ValuationRequest) => {
+    setScenarios((prev) => (prev.length >= MAX_SCENARIOS ? prev : [...prev, createScenario(name, input)]));
+  };
+
+  // Returns false when the remaining scenarios shouldn't be attempted
+  const runScenario = async (scenario: Scenario) => {
+    const parsed = valuationRequestSchema.safeParse(scenario.input);
+    if (!parsed.success) {
+      toast({
+        title: `"${scenario.name}" has invalid details`,
+        description: parsed.error.issues[0]?.message,
+        variant: "destructive",
+      });
+      return true;
+    }
+
+    updateScenario(scenario.id, { running: true });
+    try {
+      // Scenarios are hypothetical, so they stay out of the valuation history and skip the LLM narrative
+      const { data, error } = await supabase.functions.invoke('predict-price', {
+        body: { ...parsed.data, saveToHistory: false, narrative: false }
+      });
+
+      if (error instanceof FunctionsHttpError && error.context.status === 429) {
+        const body = await error.context.json().catch(() => ({}));
+        if (body.quota) onQuotaChange(body.quota);
+        const retryAfter = Number(error.context.headers.get('Retry-After') ?? body.retryAfter ?? 60);
+        toast({
+          title: body.quota?.remaining === 0 ? "Daily limit reached" : "Too many requests",
+          description: `You can run more scenarios in ${formatDistanceToNow(new Date(Date.now() + retryAfter * 1000))}.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      if (error) {
+        throw error;
+      }
+
+      if (data.quota) onQuotaChange(data.quota);
+
+      const result = predictionResultSchema.safeParse(data?.prediction);
+      if (!result.success) {
+        throw new Error(`Invalid prediction response: ${result.error.message}`);
+      }
+
+      updateScenario(scenario.id, { result: result.data });
+      return true;
+    } catch (error) {
+      console.error('Error running scenario:', error);
+      toast({
+        title: `"${scenario.name}" failed`,
+        description: "Unable to estimate this scenario. Please try again.",
+        variant: "destructive",
+      });
+      return true;
+    } finally {
+      updateScenario(scenario.id, { running: false });
+    }
+  };
+
+  // One at a time, so a rate limit stops the run instead of failing every request
+  const runScenarios = async () => {
+    setRunning(true);
+    for (const scenario of scenarios.filter((s) => !s.result)) {
+      if (!(await runScenario(scenario))) break;
+    }
+    setRunning(false);
+  };
+
+  const pending = scenarios.filter((s) => !s.result).length;
+  const completed = scenarios.filter((s): s is Scenario & { result: PredictionResult } => s.result !== null);
+
+  // Estimates saved before price breakdowns existed have no contributions to chart
+  const charted = [
+    { id: 'current', name: 'Current', contributions: basePrediction.contributions, color: "hsl(var(--muted-foreground))" },
+    ...completed.map((s, i) => ({
+      id: s.id,
+      name: s.name,
+      contributions: s.result.contributions,
+      color: SERIES_COLORS[i % SERIES_COLORS.length],
+    })),
+  ].filter((series): series is typeof series & { contributions: Contributions } => series.contributions !== null);
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    charted.map((series) => [series.id, { label: series.name, color: series.color }])
+  );
+
+  const chartData = CONTRIBUTION_FEATURES.map((feature) => ({
+    feature: CONTRIBUTION_LABELS[feature],
+    ...Object.fromEntries(
+      charted.map((series) => [
+        series.id,
+        series.contributions.items.find((item) => item.feature === feature)?.amount ?? 0,
+      ])
+    ),
+  }));
+
+  const renderChange = (estimate: number) => {
+    const change = estimate - basePrediction.estimatedPrice;
+    const percent = (change / basePrediction.estimatedPrice) * 100;
+    const sign = change > 0 ? '+' : change < 0 ? '-' : '';
+    return (
+      <span className={change > 0 ? 'text-success' : change < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+        {sign}{formatPrice(Math.abs(change))} ({sign}{Math.abs(percent).toFixed(1)}%)
+      </span>
+    );
+  };
+
+  return (
+    <Card className="border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FlaskConical className="h-5 w-5 mr-2" />
+          What-if Scenarios
+        </CardTitle>
+        <CardDescription>
+          Try changes on a copy of your property and compare the estimates. Each new scenario uses one estimate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {SCENARIO_PRESETS.map((preset) => (
+            <Button
+              key={preset.name}
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={scenarios.length >= MAX_SCENARIOS}
+              onClick={() => addScenario(preset.name, preset.apply(baseInput))}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              {preset.name}
+            </Button>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={scenarios.length >= MAX_SCENARIOS}
+            onClick={() => addScenario(`Scenario ${scenarios.length + 1}`, baseInput)}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Custom
+          </Button>
+        </div>
+
+        {scenarios.map((scenario) => {
+          const changes = describeScenarioChanges(baseInput, scenario.input);
+
+          return (
+            <Collapsible key={scenario.id} className="rounded-lg border p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={scenario.name}
+                  maxLength={40}
+                  className="h-8"
+                  aria-label="Scenario name"
+                  onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                />
+                <CollapsibleTrigger asChild>
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label="Edit scenario">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </CollapsibleTrigger>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label="Remove scenario"
+                  onClick={() => setScenarios((prev) => prev.filter((s) => s.id !== scenario.id))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="flex flex-wrap gap-1">
+                  {changes.length === 0 ? (
+                    <span className="text-muted-foreground">Same as current</span>
+                  ) : (
+                    changes.map((change) => (
+                      <Badge key={change} variant="secondary">{change}</Badge>
+                    ))
+                  )}
+                </div>
+                {scenario.running ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : scenario.result ? (
+                  <span className="font-medium">
+                    {formatPrice(scenario.result.estimatedPrice)} {renderChange(scenario.result.estimatedPrice)}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">Not run yet</span>
+                )}
+              </div>
+
+              <CollapsibleContent className="space-y-3">
+                <div className="grid grid-cols-4 gap-2">
+                  {NUMERIC_FIELDS.map(({ field, label, step }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`${scenario.id}-${field}`} className="text-xs">{label}</Label>
+                      <Input
+                        id={`${scenario.id}-${field}`}
+                        type="number"
+                        step={step}
+                        className="h-8"
+                        value={scenario.input[field] ?? ''}
+                        onChange={(e) =>
+                          updateInput(scenario.id, { [field]: e.target.value === '' ? undefined : Number(e.target.value) })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The model counts amenities without telling them apart, so each one moves the estimate by the same amount.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {AMENITIES.map((amenity) => (
+                    <div key={amenity} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${scenario.id}-${amenity}`}
+                        checked={scenario.input.amenities.includes(amenity)}
+                        onCheckedChange={(checked) =>
+                          updateInput(scenario.id, {
+                            amenities: checked
+                              ? [...scenario.input.amenities, amenity]
+                              : scenario.input.amenities.filter((a) => a !== amenity),
+                          })
+                        }
+                      />
+                      <Label htmlFor={`${scenario.id}-${amenity}`} className="text-xs">{amenity}</Label>
+                    </div>
+                  ))}
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+          );
+        })}
+
+        {scenarios.length > 0 && (
+          <Button
+            type="button"
+            className="w-full"
+            onClick={runScenarios}
+            disabled={running || disabled || pending === 0}
+          >
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            {pending === 0 ? 'All scenarios estimated' : `Run ${pending} ${pending === 1 ? 'scenario' : 'scenarios'}`}
+          </Button>
+        )}
+
+        {completed.length > 0 && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scenario</TableHead>
+                  <TableHead className="text-right">Estimate</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Current</TableCell>
+                  <TableCell className="text-right">{formatPrice(basePrediction.estimatedPrice)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">-</TableCell>
+                </TableRow>
+                {completed.map((scenario) => (
+                  <TableRow key={scenario.id}>
+                    <TableCell>{scenario.name}</TableCell>
+                    <TableCell className="text-right">{formatPrice(scenario.result.estimatedPrice)}</TableCell>
+                    <TableCell className="text-right">{renderChange(scenario.result.estimatedPrice)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {charted.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Dollar contribution of each feature to the estimate</p>
+                <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={chartData} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="feature" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+                    <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatCompact} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name]?.label ?? name}: ${formatSigned(Number(value))}`} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {charted.map((series) => (
+                      <Bar key={series.id} dataKey={series.id} fill={`var(--color-${series.id})`} radius={2} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
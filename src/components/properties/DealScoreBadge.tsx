@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { DealRating, dealRating } from "@/lib/dealScore";
+
+const RATING_STYLES: Record<DealRating, string> = {
+  underpriced: 'bg-success text-success-foreground hover:bg-success',
+  fair: 'bg-secondary text-secondary-foreground hover:bg-secondary',
+  overpriced: 'bg-destructive text-destructive-foreground hover:bg-destructive',
+};
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+interface DealScoreBadgeProps {
+  dealScore: number | null;
+  estimatedPrice: number | null;
+  className?: string;
+}
+
+// Listings the model hasn't valued yet show nothing
+export const DealScoreBadge = ({ dealScore, estimatedPrice, className }: DealScoreBadgeProps) => {
+  if (dealScore === null || estimatedPrice === null) return null;
+
+  const rating = dealRating(dealScore);
+  const percent = `${Math.abs(dealScore).toFixed(0)}%`;
+  const label =
+    rating === 'underpriced' ? `Underpriced ${percent}` : rating === 'overpriced' ? `Overpriced ${percent}` : 'Fair price';
+
+  return (
+    <Badge
+      className={cn(RATING_STYLES[rating], className)}
+      title={`Asking price is ${percent} ${dealScore < 0 ? 'below' : 'above'} our estimate of ${formatPrice(estimatedPrice)}`}
+    >
+      {label}
+    </Badge>
+  );
+};
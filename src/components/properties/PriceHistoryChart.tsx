@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { History } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+type PriceHistory = Database['public']['Tables']['property_price_history']['Row'];
+
+const chartConfig = {
+  price: {
+    label: "Price",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatCompactPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(price);
+};
+
+interface PriceHistoryChartProps {
+  propertyId: string;
+  currentPrice: number;
+}
+
+export const PriceHistoryChart = ({ propertyId, currentPrice }: PriceHistoryChartProps) => {
+  const [history, setHistory] = useState<PriceHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('property_price_history')
+        .select('*')
+        .eq('property_id', propertyId)
+        .order('changed_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching price history:', error);
+      } else {
+        setHistory(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchHistory();
+  }, [propertyId]);
+
+  const priceChanges = history.filter((entry) => entry.old_price === null || entry.old_price !== entry.new_price);
+  const data = priceChanges.map((entry) => ({
+    date: new Date(entry.changed_at).getTime(),
+    price: Number(entry.new_price),
+  }));
+
+  // Extend the line to today so a flat history still reads as a line
+  if (data.length > 0) {
+    data.push({ date: Date.now(), price: currentPrice });
+  }
+
+  const firstPrice = data[0]?.price;
+  const change = firstPrice ? ((currentPrice - firstPrice) / firstPrice) * 100 : 0;
+
+  return (
+    <Card className="border-border/50 shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Price History
+        </CardTitle>
+        <CardDescription>
+          {priceChanges.length <= 1
+            ? 'No price changes since this property was listed'
+            : `${priceChanges.length - 1} price ${priceChanges.length === 2 ? 'change' : 'changes'} · ${change > 0 ? '+' : ''}${change.toFixed(1)}% since listing`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-48 bg-muted rounded animate-pulse" />
+        ) : data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No price history available.</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <LineChart data={data} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value) => format(new Date(value), 'MMM yyyy')}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => formatCompactPrice(Number(value))}
+                tickLine={false}
+                axisLine={false}
+                width={60}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? format(new Date(payload[0].payload.date), 'MMM d, yyyy') : ''
+                    }
+                    formatter={(value) => formatPrice(Number(value))}
+                  />
+                }
+              />
+              <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
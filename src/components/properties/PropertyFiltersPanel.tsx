@@ -0,0 +1,153 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Filter } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_PRICE_FILTER, PropertyFilters } from "@/lib/propertyFilters";
+
+interface PropertyFiltersPanelProps {
+  filters: PropertyFilters;
+  onFiltersChange: (filters: PropertyFilters) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+export const PropertyFiltersPanel = ({ filters, onFiltersChange, onClear, className }: PropertyFiltersPanelProps) => {
+  const updateFilter = <K extends keyof PropertyFilters>(key: K, value: PropertyFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  return (
+    <Card className={cn("p-6", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold flex items-center">
+          <Filter className="h-4 w-4 mr-2" />
+          Filters
+        </h3>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          Clear All
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        {/* Property Type */}
+        <div>
+          <label className="text-sm font-medium mb-2 block">Property Type</label>
+          <Select value={filters.propertyType} onValueChange={(value) => 
+            updateFilter('propertyType', value)
+          }>
+            <SelectTrigger>
+              <SelectValue placeholder="Any type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="">Any type</SelectItem>
+              <SelectItem value="apartment">Apartment</SelectItem>
+              <SelectItem value="house">House</SelectItem>
+              <SelectItem value="villa">Villa</SelectItem>
+              <SelectItem value="penthouse">Penthouse</SelectItem>
+              <SelectItem value="studio">Studio</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Price Range */}
+        <div>
+          <label className="text-sm font-medium mb-2 block">
+            Price Range: {formatPrice(filters.priceRange[0])} - {formatPrice(filters.priceRange[1])}
+          </label>
+          <Slider
+            value={filters.priceRange}
+            onValueChange={(value) => 
+              updateFilter('priceRange', value as [number, number])
+            }
+            max={MAX_PRICE_FILTER}
+            min={0}
+            step={50000}
+            className="mt-2"
+          />
+        </div>
+
+        {/* Bedrooms */}
+        <div>
+          <label className="text-sm font-medium mb-2 block">Bedrooms</label>
+          <Select value={filters.bedrooms} onValueChange={(value) => 
+            updateFilter('bedrooms', value)
+          }>
+            <SelectTrigger>
+              <SelectValue placeholder="Any" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="">Any</SelectItem>
+              <SelectItem value="0">Studio</SelectItem>
+              <SelectItem value="1">1 Bedroom</SelectItem>
+              <SelectItem value="2">2 Bedrooms</SelectItem>
+              <SelectItem value="3">3 Bedrooms</SelectItem>
+              <SelectItem value="4">4 Bedrooms</SelectItem>
+              <SelectItem value="5">5+ Bedrooms</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Bathrooms */}
+        <div>
+          <label className="text-sm font-medium mb-2 block">Bathrooms</label>
+          <Select value={filters.bathrooms} onValueChange={(value) => 
+            updateFilter('bathrooms', value)
+          }>
+            <SelectTrigger>
+              <SelectValue placeholder="Any" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="">Any</SelectItem>
+              <SelectItem value="1">1 Bathroom</SelectItem>
+              <SelectItem value="2">2 Bathrooms</SelectItem>
+              <SelectItem value="3">3 Bathrooms</SelectItem>
+              <SelectItem value="4">4+ Bathrooms</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Area */}
+        <div className="space-y-4">
+          <label className="text-sm font-medium block">Area (sq ft)</label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              placeholder="Min"
+              value={filters.minArea}
+              onChange={(e) => updateFilter('minArea', e.target.value)}
+            />
+            <Input
+              type="number"
+              placeholder="Max"
+              value={filters.maxArea}
+              onChange={(e) => updateFilter('maxArea', e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* City */}
+        <div>
+          <label className="text-sm font-medium mb-2 block">City</label>
+          <Input
+            type="text"
+            placeholder="Enter city name"
+            value={filters.city}
+            onChange={(e) => updateFilter('city', e.target.value)}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { PropertyFilters } from "@/lib/propertyFilters";
+import {
+  deliveryOptions,
+  describeSavedSearch,
+  normalizeSavedSearchFilters,
+  SavedSearchDelivery,
+} from "@/lib/savedSearches";
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: PropertyFilters;
+  searchQuery: string;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+export const SaveSearchDialog = ({
+  open,
+  onOpenChange,
+  filters,
+  searchQuery,
+  sortBy,
+  sortOrder,
+}: SaveSearchDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [delivery, setDelivery] = useState<SavedSearchDelivery>('instant');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(filters.city || searchQuery || '');
+      setDelivery('instant');
+    }
+  }, [open, filters.city, searchQuery]);
+
+  const saveSearch = async () => {
+    const trimmed = name.trim();
+    if (!trimmed || !user) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: user.id,
+        name: trimmed,
+        search_query: searchQuery.trim(),
+        filters: { ...normalizeSavedSearchFilters(filters) },
+        sort_by: sortBy,
+        sort_order: sortOrder,
+        delivery,
+      });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving search:', error);
+      toast({
+        title: "Couldn't save search",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Search saved",
+      description: "We'll let you know when new listings match.",
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save search</DialogTitle>
+          <DialogDescription>
+            {describeSavedSearch({ search_query: searchQuery.trim(), filters: { ...normalizeSavedSearchFilters(filters) } })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {user ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                autoFocus
+                placeholder="e.g. 2 bed in Austin"
+                value={name}
+                maxLength={80}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveSearch()}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Alerts</Label>
+              <RadioGroup value={delivery} onValueChange={(value) => setDelivery(value as SavedSearchDelivery)}>
+                {deliveryOptions.map((option) => (
+                  <div key={option.value} className="flex items-start space-x-2">
+                    <RadioGroupItem value={option.value} id={`delivery-${option.value}`} className="mt-0.5" />
+                    <Label htmlFor={`delivery-${option.value}`} className="font-normal">
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Sign in to save searches and get alerts for new matches.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {user ? (
+            <Button onClick={saveSearch} disabled={!name.trim() || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          ) : (
+            <Button asChild>
+              <Link to="/auth">Sign In</Link>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
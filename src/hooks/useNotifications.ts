@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+
+// Where opening a notification takes the user, if anywhere
+export const notificationLink = (notification: Notification) => {
+  if (notification.property_id) return `/property/${notification.property_id}`;
+  if (notification.type === 'home_value') return '/my-homes';
+  return null;
+};
+
+let channelCount = 0;
+
+export const useNotifications = (limit = 10) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  // Each hook instance needs its own realtime channel name
+  const channelName = useRef(`notifications-${++channelCount}`);
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!user) return;
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Error counting notifications:', error);
+    } else {
+      setUnreadCount(count ?? 0);
+    }
+  }, [user]);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching notifications:', error);
+      } else {
+        setNotifications(data || []);
+      }
+      await fetchUnreadCount();
+    } finally {
+      setLoading(false);
+    }
+  }, [user, limit, fetchUnreadCount]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(channelName.current)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((prev) => [notification, ...prev].slice(0, limit));
+          if (!notification.read) {
+            setUnreadCount((prev) => prev + 1);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((prev) => prev.map((n) => (n.id === notification.id ? notification : n)));
+          fetchUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, limit, fetchNotifications, fetchUnreadCount]);
+
+  const markAsRead = async (notificationId: string) => {
+    const target = notifications.find((n) => n.id === notificationId);
+    if (target?.read) return { error: null };
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('id', notificationId);
+
+    if (!error) {
+      setNotifications((prev) => prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n)));
+      setUnreadCount((prev) => Math.max(0, prev - 1));
+    }
+
+    return { error };
+  };
+
+  const markAllAsRead = async () => {
+    if (!user) return { error: null };
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', user.id)
+      .eq('read', false);
+
+    if (!error) {
+      setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+      setUnreadCount(0);
+    }
+
+    return { error };
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refresh: fetchNotifications,
+  };
+};
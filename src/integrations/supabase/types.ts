@@ -14,6 +14,148 @@ export type Database = {
   }
   public: {
     Tables: {
+      chat_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          cited_property_ids: Json
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          cited_property_ids?: Json
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          cited_property_ids?: Json
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_usage: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      favorite_collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      home_valuations: {
+        Row: {
+          created_at: string
+          estimated_price: number
+          home_id: string
+          id: string
+          model_version: string
+          price_max: number
+          price_min: number
+        }
+        Insert: {
+          created_at?: string
+          estimated_price: number
+          home_id: string
+          id?: string
+          model_version: string
+          price_max: number
+          price_min: number
+        }
+        Update: {
+          created_at?: string
+          estimated_price?: number
+          home_id?: string
+          id?: string
+          model_version?: string
+          price_max?: number
+          price_min?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_valuations_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "tracked_homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
@@ -55,6 +197,107 @@ export type Database = {
           },
         ]
       }
+      prediction_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          input: Json
+          input_hash: string
+          model_version: string
+          prediction: Json
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          input: Json
+          input_hash: string
+          model_version: string
+          prediction: Json
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          input?: Json
+          input_hash?: string
+          model_version?: string
+          prediction?: Json
+        }
+        Relationships: []
+      }
+      prediction_usage: {
+        Row: {
+          created_at: string
+          id: string
+          ip_address: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ip_address: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_address?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      price_predictions: {
+        Row: {
+          cached: boolean
+          created_at: string
+          estimated_price: number
+          id: string
+          input: Json
+          llm_provider: string | null
+          model_version: string
+          name: string
+          prediction: Json
+          source_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cached?: boolean
+          created_at?: string
+          estimated_price: number
+          id?: string
+          input: Json
+          llm_provider?: string | null
+          model_version: string
+          name: string
+          prediction: Json
+          source_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cached?: boolean
+          created_at?: string
+          estimated_price?: number
+          id?: string
+          input?: Json
+          llm_provider?: string | null
+          model_version?: string
+          name?: string
+          prediction?: Json
+          source_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_predictions_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "price_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -105,7 +348,9 @@ export type Database = {
           bedrooms: number
           city: string
           created_at: string
+          deal_score: number | null
           description: string | null
+          estimated_price: number | null
           features: Json | null
           furnished: boolean | null
           id: string
@@ -120,6 +365,8 @@ export type Database = {
           status: string | null
           title: string
           updated_at: string
+          valuation_model_version: string | null
+          valued_at: string | null
           year_built: number | null
           zipcode: string | null
         }
@@ -133,7 +380,9 @@ export type Database = {
           bedrooms: number
           city: string
           created_at?: string
+          deal_score?: never
           description?: string | null
+          estimated_price?: number | null
           features?: Json | null
           furnished?: boolean | null
           id?: string
@@ -148,6 +397,8 @@ export type Database = {
           status?: string | null
           title: string
           updated_at?: string
+          valuation_model_version?: string | null
+          valued_at?: string | null
           year_built?: number | null
           zipcode?: string | null
         }
@@ -161,7 +412,9 @@ export type Database = {
           bedrooms?: number
           city?: string
           created_at?: string
+          deal_score?: never
           description?: string | null
+          estimated_price?: number | null
           features?: Json | null
           furnished?: boolean | null
           id?: string
@@ -176,11 +429,54 @@ export type Database = {
           status?: string | null
           title?: string
           updated_at?: string
+          valuation_model_version?: string | null
+          valued_at?: string | null
           year_built?: number | null
           zipcode?: string | null
         }
         Relationships: []
       }
+      property_price_history: {
+        Row: {
+          changed_at: string
+          id: string
+          new_price: number
+          new_status: string | null
+          notified_at: string | null
+          old_price: number | null
+          old_status: string | null
+          property_id: string
+        }
+        Insert: {
+          changed_at?: string
+          id?: string
+          new_price: number
+          new_status?: string | null
+          notified_at?: string | null
+          old_price?: number | null
+          old_status?: string | null
+          property_id: string
+        }
+        Update: {
+          changed_at?: string
+          id?: string
+          new_price?: number
+          new_status?: string | null
+          notified_at?: string | null
+          old_price?: number | null
+          old_status?: string | null
+          property_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_price_history_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       property_views: {
         Row: {
           id: string
@@ -213,26 +509,243 @@ export type Database = {
           },
         ]
       }
+      rental_listings: {
+        Row: {
+          address: string
+          amenities: Json | null
+          area_sqft: number
+          bathrooms: number
+          bedrooms: number
+          city: string
+          created_at: string
+          furnished: boolean | null
+          id: string
+          latitude: number | null
+          lease_term_months: number
+          longitude: number | null
+          monthly_rent: number
+          parking_spaces: number | null
+          pet_friendly: boolean | null
+          property_type: string
+          state: string
+          title: string
+          updated_at: string
+          utilities_included: boolean
+          year_built: number | null
+          zipcode: string | null
+        }
+        Insert: {
+          address: string
+          amenities?: Json | null
+          area_sqft: number
+          bathrooms: number
+          bedrooms: number
+          city: string
+          created_at?: string
+          furnished?: boolean | null
+          id?: string
+          latitude?: number | null
+          lease_term_months?: number
+          longitude?: number | null
+          monthly_rent: number
+          parking_spaces?: number | null
+          pet_friendly?: boolean | null
+          property_type: string
+          state: string
+          title: string
+          updated_at?: string
+          utilities_included?: boolean
+          year_built?: number | null
+          zipcode?: string | null
+        }
+        Update: {
+          address?: string
+          amenities?: Json | null
+          area_sqft?: number
+          bathrooms?: number
+          bedrooms?: number
+          city?: string
+          created_at?: string
+          furnished?: boolean | null
+          id?: string
+          latitude?: number | null
+          lease_term_months?: number
+          longitude?: number | null
+          monthly_rent?: number
+          parking_spaces?: number | null
+          pet_friendly?: boolean | null
+          property_type?: string
+          state?: string
+          title?: string
+          updated_at?: string
+          utilities_included?: boolean
+          year_built?: number | null
+          zipcode?: string | null
+        }
+        Relationships: []
+      }
+      saved_search_matches: {
+        Row: {
+          id: string
+          match_type: string
+          matched_at: string
+          notified_at: string | null
+          property_id: string
+          saved_search_id: string
+        }
+        Insert: {
+          id?: string
+          match_type: string
+          matched_at?: string
+          notified_at?: string | null
+          property_id: string
+          saved_search_id: string
+        }
+        Update: {
+          id?: string
+          match_type?: string
+          matched_at?: string
+          notified_at?: string | null
+          property_id?: string
+          saved_search_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_matches_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_search_matches_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          delivery: string
+          filters: Json
+          id: string
+          name: string
+          paused: boolean
+          search_query: string
+          sort_by: string
+          sort_order: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivery?: string
+          filters?: Json
+          id?: string
+          name: string
+          paused?: boolean
+          search_query?: string
+          sort_by?: string
+          sort_order?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delivery?: string
+          filters?: Json
+          id?: string
+          name?: string
+          paused?: boolean
+          search_query?: string
+          sort_by?: string
+          sort_order?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tracked_homes: {
+        Row: {
+          alert_baseline_price: number | null
+          alert_threshold_percent: number
+          created_at: string
+          id: string
+          input: Json
+          last_valued_at: string | null
+          latest_price: number | null
+          name: string
+          paused: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_baseline_price?: number | null
+          alert_threshold_percent?: number
+          created_at?: string
+          id?: string
+          input: Json
+          last_valued_at?: string | null
+          latest_price?: number | null
+          name: string
+          paused?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_baseline_price?: number | null
+          alert_threshold_percent?: number
+          created_at?: string
+          id?: string
+          input?: Json
+          last_valued_at?: string | null
+          latest_price?: number | null
+          name?: string
+          paused?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_favorites: {
         Row: {
+          collection_id: string | null
           created_at: string
           id: string
+          note: string | null
           property_id: string
+          updated_at: string
           user_id: string
         }
         Insert: {
+          collection_id?: string | null
           created_at?: string
           id?: string
+          note?: string | null
           property_id: string
+          updated_at?: string
           user_id: string
         }
         Update: {
+          collection_id?: string | null
           created_at?: string
           id?: string
+          note?: string | null
           property_id?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "user_favorites_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "favorite_collections"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "user_favorites_property_id_fkey"
             columns: ["property_id"]
@@ -247,7 +760,43 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_chat_quota: {
+        Args: { p_user_id: string }
+        Returns: {
+          allowed: boolean
+          daily_limit: number
+          remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      consume_prediction_quota: {
+        Args: { p_consume?: boolean; p_ip_address: string; p_user_id: string }
+        Returns: {
+          allowed: boolean
+          daily_limit: number
+          remaining: number
+          retry_after_seconds: number
+        }[]
+      }
+      notify_price_changes: {
+        Args: never
+        Returns: number
+      }
+      saved_search_matches_property: {
+        Args: {
+          p: Database["public"]["Tables"]["properties"]["Row"]
+          s: Database["public"]["Tables"]["saved_searches"]["Row"]
+        }
+        Returns: boolean
+      }
+      send_saved_search_digests: {
+        Args: never
+        Returns: number
+      }
+      wants_notification: {
+        Args: { notification_type: string; target_user: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
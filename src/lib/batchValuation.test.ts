@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { BatchRow, isQueuedRow, parseBatchCsv, releaseWaitingRows, runWithConcurrency } from './batchValuation';
+
+const rowsFor = (count: number) => {
+  const lines = ['propertyType,bedrooms,bathrooms,area,city,state'];
+  for (let i = 0; i < count; i++) lines.push('house,3,2,1800,Austin,TX');
+  return parseBatchCsv(lines.join('\n')).rows;
+};
+
+describe('parseBatchCsv', () => {
+  it('maps aliased headers and converts booleans and amenities', () => {
+    const { rows, missingColumns } = parseBatchCsv(
+      'Type,Beds,Baths,Sq Ft,City,State,Zip,Pets,Amenities\nhouse,3,2,1800,Austin,TX,78701,yes,garage; Garden'
+    );
+
+    expect(missingColumns).toEqual([]);
+    expect(rows[0].status).toBe('pending');
+    expect(rows[0].request).toMatchObject({
+      propertyType: 'house',
+      bedrooms: 3,
+      area: 1800,
+      zipcode: '78701',
+      petFriendly: true,
+      amenities: ['Garage', 'Garden'],
+    });
+  });
+
+  it('marks invalid rows with field errors and their line in the file', () => {
+    const { rows } = parseBatchCsv(
+      'propertyType,bedrooms,bathrooms,area,city,state,furnished\n\ncastle,3,2,1800,Austin,TX,maybe'
+    );
+
+    expect(rows[0]).toMatchObject({ line: 3, status: 'invalid', request: null });
+    expect(rows[0].errors).toEqual(['propertyType: Choose a property type', 'furnished: Furnished must be yes or no']);
+  });
+
+  it('reports missing required columns', () => {
+    expect(parseBatchCsv('propertyType,bedrooms,city\nhouse,3,Austin').missingColumns)
+      .toEqual(['bathrooms', 'area', 'state']);
+  });
+
+  it('loads at most maxRows rows', () => {
+    const { rows, truncated } = parseBatchCsv(
+      ['propertyType,bedrooms,bathrooms,area,city,state', ...Array(4).fill('house,3,2,1800,Austin,TX')].join('\n'),
+      3
+    );
+
+    expect(rows).toHaveLength(3);
+    expect(truncated).toBe(true);
+  });
+});
+
+describe('stopping a batch', () => {
+  it('requeues a row that was waiting to retry when the run stopped', async () => {
+    let rows = rowsFor(3);
+    let stopRequested = false;
+    const setStatus = (line: number, status: BatchRow['status'], errors: string[] = []) => {
+      rows = rows.map((row) => (row.line === line ? { ...row, status, errors } : row));
+    };
+
+    // The first row is rate limited and Stop is pressed while it waits; the rest never start
+    await runWithConcurrency(rows.filter(isQueuedRow), 1, async (row) => {
+      if (stopRequested) return;
+      setStatus(row.line, 'waiting', ['Rate limited, retrying in 60s']);
+      stopRequested = true;
+    });
+    expect(rows.map((row) => row.status)).toEqual(['waiting', 'pending', 'pending']);
+
+    rows = releaseWaitingRows(rows);
+
+    expect(rows.map((row) => row.status)).toEqual(['pending', 'pending', 'pending']);
+    expect(rows[0].errors).toEqual([]);
+    expect(rows.filter(isQueuedRow)).toHaveLength(3);
+  });
+
+  it('leaves finished and invalid rows out of the next run', () => {
+    const [done, error, invalid] = rowsFor(3);
+    const rows: BatchRow[] = [
+      { ...done, status: 'done' },
+      { ...error, status: 'error' },
+      { ...invalid, status: 'invalid' },
+    ];
+
+    expect(releaseWaitingRows(rows)).toEqual(rows);
+    expect(rows.filter(isQueuedRow).map((row) => row.status)).toEqual(['error']);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  AMENITIES,
+  PredictionResult,
+  ValuationRequest,
+  valuationRequestSchema,
+} from "@/lib/predictionSchema";
+import { parseCsvRecords } from "@/lib/csv";
+
+// CSV columns mirror the PricePrediction form fields; amenities are separated by semicolons
+export const BATCH_COLUMNS = [
+  'propertyType',
+  'bedrooms',
+  'bathrooms',
+  'area',
+  'address',
+  'city',
+  'state',
+  'zipcode',
+  'yearBuilt',
+  'parkingSpaces',
+  'furnished',
+  'petFriendly',
+  'amenities',
+] as const;
+
+type BatchColumn = (typeof BATCH_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: BatchColumn[] = ['propertyType', 'bedrooms', 'bathrooms', 'area', 'city', 'state'];
+
+// Spreadsheet-friendly spellings of the column names
+const COLUMN_ALIASES: Record<string, BatchColumn> = {
+  type: 'propertyType',
+  beds: 'bedrooms',
+  baths: 'bathrooms',
+  areasqft: 'area',
+  sqft: 'area',
+  zip: 'zipcode',
+  parking: 'parkingSpaces',
+  pets: 'petFriendly',
+};
+
+export const MAX_BATCH_ROWS = 100;
+export const BATCH_CONCURRENCY = 3;
+
+export const BATCH_TEMPLATE: string[][] = [
+  [...BATCH_COLUMNS],
+  ['house', '3', '2', '1800', '12 Oak Street', 'Austin', 'TX', '78701', '1998', '2', 'no', 'yes', 'Garage;Garden'],
+  ['apartment', '2', '1', '950', '', 'Boston', 'MA', '', '', '1', 'yes', 'no', ''],
+];
+
+export type BatchRowStatus = 'invalid' | 'pending' | 'running' | 'waiting' | 'done' | 'error';
+
+export interface BatchRow {
+  // 1-based line the row starts on in the uploaded file, for error messages
+  line: number;
+  values: Record<BatchColumn, string>;
+  request: ValuationRequest | null;
+  status: BatchRowStatus;
+  errors: string[];
+  prediction: PredictionResult | null;
+}
+
+export interface ParsedBatch {
+  rows: BatchRow[];
+  missingColumns: BatchColumn[];
+  truncated: boolean;
+}
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const columnFor = (header: string): BatchColumn | undefined => {
+  const key = normaliseHeader(header);
+  return BATCH_COLUMNS.find((column) => column.toLowerCase() === key) ?? COLUMN_ALIASES[key];
+};
+
+// Unrecognised values are passed through so the schema reports them
+const toBoolean = (value: string) => {
+  const normalised = value.trim().toLowerCase();
+  if (['', 'no', 'n', 'false', '0'].includes(normalised)) return false;
+  if (['yes', 'y', 'true', '1'].includes(normalised)) return true;
+  return value;
+};
+
+const toAmenities = (value: string) =>
+  value
+    .split(/[;|]/)
+    .map((amenity) => amenity.trim())
+    .filter(Boolean)
+    .map((amenity) => AMENITIES.find((known) => known.toLowerCase() === amenity.toLowerCase()) ?? amenity);
+
+function validateRow(values: Record<BatchColumn, string>) {
+  const result = valuationRequestSchema.safeParse({
+    ...values,
+    furnished: toBoolean(values.furnished),
+    petFriendly: toBoolean(values.petFriendly),
+    amenities: toAmenities(values.amenities),
+  });
+
+  if (result.success) return { request: result.data, errors: [] };
+
+  const { fieldErrors, formErrors } = result.error.flatten();
+  const errors = [
+    ...formErrors,
+    ...Object.entries(fieldErrors).map(([field, messages]) => `${field}: ${messages?.[0]}`),
+  ];
+  return { request: null, errors };
+}
+
+// `maxRows` is normally the caller's remaining estimates for the day, capped at MAX_BATCH_ROWS
+export function parseBatchCsv(text: string, maxRows = MAX_BATCH_ROWS): ParsedBatch {
+  const [header, ...records] = parseCsvRecords(text);
+  const columns = (header?.fields ?? []).map(columnFor);
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+
+  const rows = records.slice(0, maxRows).map((record) => {
+    const values = Object.fromEntries(BATCH_COLUMNS.map((column) => [column, ''])) as Record<BatchColumn, string>;
+    columns.forEach((column, i) => {
+      if (column) values[column] = record.fields[i]?.trim() ?? '';
+    });
+
+    const { request, errors } = validateRow(values);
+    return {
+      line: record.line,
+      values,
+      request,
+      status: request ? 'pending' : 'invalid',
+      errors,
+      prediction: null,
+    } satisfies BatchRow;
+  });
+
+  return { rows, missingColumns, truncated: records.length > maxRows };
+}
+
+// Rows a run picks up. 'waiting' rows were stopped mid-retry, by Stop or the daily limit.
+export const isQueuedRow = (row: BatchRow) =>
+  row.status === 'pending' || row.status === 'waiting' || row.status === 'error';
+
+// Once a run ends nothing is retrying any more, so interrupted rows go back to pending
+export const releaseWaitingRows = (rows: BatchRow[]) =>
+  rows.map((row) => (row.status === 'waiting' ? { ...row, status: 'pending' as const, errors: [] } : row));
+
+// The uploaded columns followed by the results, so the file can go straight back into a spreadsheet
+export function batchResultsCsv(rows: BatchRow[]) {
+  return [
+    [...BATCH_COLUMNS, 'estimatedPrice', 'rangeMin', 'rangeMax', 'confidence', 'modelVersion', 'status', 'errors'],
+    ...rows.map((row) => [
+      ...BATCH_COLUMNS.map((column) => row.values[column]),
+      row.prediction?.estimatedPrice,
+      row.prediction?.priceRange.min,
+      row.prediction?.priceRange.max,
+      row.prediction?.confidence,
+      row.prediction?.model.version,
+      row.status,
+      row.errors.join('; '),
+    ]),
+  ];
+}
+
+// Runs `worker` over `items` with at most `limit` in flight, in order
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
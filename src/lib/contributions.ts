@@ -0,0 +1,53 @@
+import { ContributionFeature, Contributions } from "@/lib/predictionSchema";
+
+export const CONTRIBUTION_LABELS: Record<ContributionFeature, string> = {
+  location: 'Location',
+  size: 'Size',
+  propertyType: 'Property type',
+  bedrooms: 'Bedrooms',
+  bathrooms: 'Bathrooms',
+  age: 'Age',
+  parking: 'Parking',
+  furnished: 'Furnished',
+  petFriendly: 'Pet friendly',
+  amenities: 'Amenities',
+};
+
+export const BASELINE_DESCRIPTION =
+  'a new 1,000 sq ft, 2 bed, 2 bath house in an average location, with no parking or amenities';
+
+export type WaterfallStepKind = 'baseline' | 'increase' | 'decrease' | 'total';
+
+export interface WaterfallStep {
+  label: string;
+  kind: WaterfallStepKind;
+  // Signed change for feature steps, the price itself for the baseline and total
+  amount: number;
+  // Running price before and after the step
+  from: number;
+  to: number;
+}
+
+// Baseline, one step per feature that moves the price, then the estimate
+export function waterfallSteps(contributions: Contributions): WaterfallStep[] {
+  let running = contributions.baseline;
+  const features = contributions.items
+    .filter((item) => item.amount !== 0)
+    .map((item): WaterfallStep => {
+      const from = running;
+      running += item.amount;
+      return {
+        label: CONTRIBUTION_LABELS[item.feature],
+        kind: item.amount > 0 ? 'increase' : 'decrease',
+        amount: item.amount,
+        from,
+        to: running,
+      };
+    });
+
+  return [
+    { label: 'Baseline', kind: 'baseline', amount: contributions.baseline, from: 0, to: contributions.baseline },
+    ...features,
+    { label: 'Estimate', kind: 'total', amount: running, from: 0, to: running },
+  ];
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsvRecords', () => {
+  it('handles quoted commas, escaped quotes and line breaks', () => {
+    expect(parseCsvRecords('a,"b, c","say ""hi""","two\nlines"').map((record) => record.fields))
+      .toEqual([['a', 'b, c', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('reports the line each record starts on, counting blank lines and quoted breaks', () => {
+    const text = 'header\r\n\r\n"multi\r\nline"\r\nnext\n\nlast';
+
+    expect(parseCsvRecords(text)).toEqual([
+      { line: 1, fields: ['header'] },
+      { line: 3, fields: ['multi\r\nline'] },
+      { line: 5, fields: ['next'] },
+      { line: 7, fields: ['last'] },
+    ]);
+  });
+
+  it('strips a byte order mark and skips rows of empty fields', () => {
+    expect(parseCsvRecords('\uFEFFa,b\n , \n1,2\n').map((record) => record.fields)).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['name', 'note'], ['Oak "House"', 'pool, garden\nnew roof']];
+
+    expect(parseCsvRecords(toCsv(rows)).map((record) => record.fields)).toEqual(rows);
+  });
+});
@@ -0,0 +1,79 @@
+// Minimal RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+
+export interface CsvRecord {
+  // 1-based line the record starts on in the source text; quoted line breaks and blank
+  // lines are counted, so it matches what a text editor shows
+  line: number;
+  fields: string[];
+}
+
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      records.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+  }
+
+  // Blank lines carry no data
+  return records.filter((record) => record.fields.some((value) => value.trim() !== ''));
+}
+
+export function parseCsv(text: string): string[][] {
+  return parseCsvRecords(text).map((record) => record.fields);
+}
+
+const escapeField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows.map((row) => row.map((value) => escapeField(value == null ? '' : String(value))).join(',')).join('\r\n');
+}
+
+export function downloadCsv(fileName: string, rows: (string | number | boolean | null | undefined)[][]) {
+  const blob = new Blob([toCsv(rows) + '\r\n'], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
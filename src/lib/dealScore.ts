@@ -0,0 +1,8 @@
+// deal_score is the asking price's percentage difference from the model's estimate
+// (negative = below the estimate). Within this many percent either way counts as fair.
+export const FAIR_DEAL_PERCENT = 10;
+
+export type DealRating = 'underpriced' | 'fair' | 'overpriced';
+
+export const dealRating = (score: number): DealRating =>
+  score <= -FAIR_DEAL_PERCENT ? 'underpriced' : score >= FAIR_DEAL_PERCENT ? 'overpriced' : 'fair';
@@ -0,0 +1,33 @@
+import type { StyleSpecification } from "maplibre-gl";
+
+const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
+const MAP_STYLE_URL = import.meta.env.VITE_MAP_STYLE_URL;
+
+// Served from public/ so the map renders without any network access
+export const OFFLINE_MAP_STYLE_URL = '/map/offline-style.json';
+
+export const DEFAULT_MAP_CENTER: [number, number] = [-98.5795, 39.8283];
+export const DEFAULT_MAP_ZOOM = 3;
+
+// The map is drawn with MapLibre GL, which needs no token of its own. Mapbox streets comes in
+// as raster tiles from the Static Tiles API, which any renderer can use with a token.
+const mapboxStreetsStyle = (token: string): StyleSpecification => ({
+  version: 8,
+  sources: {
+    'mapbox-streets': {
+      type: 'raster',
+      tiles: [`https://api.mapbox.com/styles/v1/mapbox/streets-v12/tiles/512/{z}/{x}/{y}@2x?access_token=${token}`],
+      tileSize: 512,
+      attribution: '© <a href="https://www.mapbox.com/about/maps/">Mapbox</a> © <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+    },
+  },
+  layers: [{ id: 'mapbox-streets', type: 'raster', source: 'mapbox-streets' }],
+});
+
+// An explicit style URL always wins (e.g. a local tile server); otherwise use
+// Mapbox streets when a token is configured and fall back to the offline style.
+export const getMapStyle = (): string | StyleSpecification => {
+  if (MAP_STYLE_URL) return MAP_STYLE_URL;
+  if (MAPBOX_TOKEN) return mapboxStreetsStyle(MAPBOX_TOKEN);
+  return OFFLINE_MAP_STYLE_URL;
+};
@@ -0,0 +1,9 @@
+// The schemas live with the edge functions so both sides validate requests and predictions identically
+export * from "../../supabase/functions/_shared/predictionSchema";
+
+// Estimates left today, as reported by the predict-price function
+export interface PredictionQuota {
+  dailyLimit: number;
+  remaining: number;
+  signedIn: boolean;
+}
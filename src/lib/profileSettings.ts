@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { Json } from "@/integrations/supabase/types";
+import { PROPERTY_TYPES } from "@/lib/predictionSchema";
+
+export const preferencesSchema = z
+  .object({
+    targetCities: z.array(z.string().trim().min(1).max(80)).max(10, 'Choose up to 10 cities'),
+    minBudget: z.coerce.number().int().min(0).nullable(),
+    maxBudget: z.coerce.number().int().min(0).nullable(),
+    minBedrooms: z.coerce.number().int().min(0).max(10).nullable(),
+    propertyTypes: z.array(z.enum(PROPERTY_TYPES)),
+  })
+  .refine(
+    (prefs) => prefs.minBudget === null || prefs.maxBudget === null || prefs.minBudget <= prefs.maxBudget,
+    { message: 'Maximum budget must be at least the minimum', path: ['maxBudget'] }
+  );
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+
+export const defaultPreferences: Preferences = {
+  targetCities: [],
+  minBudget: null,
+  maxBudget: null,
+  minBedrooms: null,
+  propertyTypes: [],
+};
+
+// Keys mirror `notifications.type` so server-side jobs can look a setting up by type
+export const notificationSettingsSchema = z.object({
+  email: z.boolean(),
+  push: z.boolean(),
+  in_app: z.boolean(),
+  price_change: z.boolean(),
+  property_match: z.boolean(),
+  new_listing: z.boolean(),
+  home_value: z.boolean(),
+});
+
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+
+export const defaultNotificationSettings: NotificationSettings = {
+  email: true,
+  push: true,
+  in_app: true,
+  price_change: true,
+  property_match: true,
+  new_listing: true,
+  home_value: true,
+};
+
+const isRecord = (value: Json | null | undefined): value is Record<string, Json> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Stored JSON may predate the schema, so merge over defaults and drop anything invalid
+export const parsePreferences = (value: Json | null | undefined): Preferences => {
+  const result = preferencesSchema.safeParse({ ...defaultPreferences, ...(isRecord(value) ? value : {}) });
+  return result.success ? result.data : defaultPreferences;
+};
+
+export const parseNotificationSettings = (value: Json | null | undefined): NotificationSettings => {
+  const result = notificationSettingsSchema.safeParse({ ...defaultNotificationSettings, ...(isRecord(value) ? value : {}) });
+  return result.success ? result.data : defaultNotificationSettings;
+};
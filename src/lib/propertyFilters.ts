@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PropertyFilters {
+  propertyType: string;
+  priceRange: [number, number];
+  bedrooms: string;
+  bathrooms: string;
+  minArea: string;
+  maxArea: string;
+  city: string;
+  amenities: string[];
+}
+
+export const MAX_PRICE_FILTER = 5000000;
+
+export const defaultPropertyFilters: PropertyFilters = {
+  propertyType: '',
+  priceRange: [0, MAX_PRICE_FILTER],
+  bedrooms: '',
+  bathrooms: '',
+  minArea: '',
+  maxArea: '',
+  city: '',
+  amenities: [],
+};
+
+// Shared by the list and map views so both pages always agree on what a filter means
+export const buildPropertiesQuery = (filters: PropertyFilters, searchQuery: string) => {
+  let query = supabase
+    .from('properties')
+    .select('*')
+    .eq('status', 'available');
+
+  // Apply search
+  if (searchQuery) {
+    query = query.or(`title.ilike.%${searchQuery}%,city.ilike.%${searchQuery}%,address.ilike.%${searchQuery}%`);
+  }
+
+  // Apply filters
+  if (filters.propertyType) {
+    query = query.eq('property_type', filters.propertyType);
+  }
+
+  if (filters.city) {
+    query = query.ilike('city', `%${filters.city}%`);
+  }
+
+  if (filters.bedrooms) {
+    query = query.eq('bedrooms', parseInt(filters.bedrooms));
+  }
+
+  if (filters.bathrooms) {
+    query = query.eq('bathrooms', parseInt(filters.bathrooms));
+  }
+
+  if (filters.minArea) {
+    query = query.gte('area_sqft', parseInt(filters.minArea));
+  }
+
+  if (filters.maxArea) {
+    query = query.lte('area_sqft', parseInt(filters.maxArea));
+  }
+
+  if (filters.amenities.length > 0) {
+    query = query.contains('amenities', filters.amenities);
+  }
+
+  // Price range filter
+  query = query.gte('price', filters.priceRange[0]).lte('price', filters.priceRange[1]);
+
+  return query;
+};
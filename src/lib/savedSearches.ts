@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { Database, Json } from "@/integrations/supabase/types";
+import { defaultPropertyFilters, MAX_PRICE_FILTER, PropertyFilters } from "@/lib/propertyFilters";
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row'];
+
+export type SavedSearchDelivery = 'instant' | 'daily';
+
+export const deliveryOptions: { value: SavedSearchDelivery; label: string; description: string }[] = [
+  { value: 'instant', label: 'Instant', description: 'Notify me as soon as a listing matches' },
+  { value: 'daily', label: 'Daily digest', description: 'One summary each morning' },
+];
+
+export const SORT_OPTIONS = [
+  { value: 'created_at', label: 'Date Added' },
+  { value: 'price', label: 'Price' },
+  { value: 'area_sqft', label: 'Size' },
+  { value: 'bedrooms', label: 'Bedrooms' },
+  { value: 'deal_score', label: 'Deal Score' },
+] as const;
+
+const filtersSchema = z.object({
+  propertyType: z.string(),
+  priceRange: z.tuple([z.number().min(0), z.number().min(0)]),
+  bedrooms: z.string(),
+  bathrooms: z.string(),
+  minArea: z.string(),
+  maxArea: z.string(),
+  city: z.string(),
+  amenities: z.array(z.string()),
+});
+
+const isRecord = (value: Json | null | undefined): value is Record<string, Json> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Saved filters are matched server-side by saved_search_matches_property(), keep the shape in sync
+export const parseSavedSearchFilters = (value: Json | null | undefined): PropertyFilters => {
+  const result = filtersSchema.safeParse({ ...defaultPropertyFilters, ...(isRecord(value) ? value : {}) });
+  return result.success ? (result.data as PropertyFilters) : defaultPropertyFilters;
+};
+
+const formatCompactPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(price);
+};
+
+const toWholeNumber = (value: string) => {
+  const number = Number(value.trim());
+  return value.trim() !== '' && Number.isFinite(number) && number >= 0 && number < 1e9
+    ? String(Math.trunc(number))
+    : '';
+};
+
+// What gets stored: counts and areas as whole-number strings ('' for "any"), the same
+// normalisation the normalize_saved_search_filters() trigger applies on the server
+export const normalizeSavedSearchFilters = (filters: PropertyFilters): PropertyFilters => ({
+  ...filters,
+  bedrooms: toWholeNumber(filters.bedrooms),
+  bathrooms: toWholeNumber(filters.bathrooms),
+  minArea: toWholeNumber(filters.minArea),
+  maxArea: toWholeNumber(filters.maxArea),
+});
+
+// Short human-readable summary of what a saved search looks for
+export const describeSavedSearch = (search: Pick<SavedSearch, 'search_query' | 'filters'>) => {
+  const filters = parseSavedSearchFilters(search.filters);
+  const parts: string[] = [];
+
+  if (search.search_query) parts.push(`"${search.search_query}"`);
+  if (filters.propertyType) parts.push(filters.propertyType);
+  if (filters.city) parts.push(`in ${filters.city}`);
+  if (filters.bedrooms) parts.push(`${filters.bedrooms} bed`);
+  if (filters.bathrooms) parts.push(`${filters.bathrooms} bath`);
+  if (filters.minArea || filters.maxArea) {
+    parts.push(`${filters.minArea || '0'}-${filters.maxArea || '∞'} sqft`);
+  }
+
+  const [minPrice, maxPrice] = filters.priceRange;
+  if (minPrice > 0 || maxPrice < MAX_PRICE_FILTER) {
+    parts.push(`${formatCompactPrice(minPrice)}-${formatCompactPrice(maxPrice)}`);
+  }
+  if (filters.amenities.length > 0) parts.push(filters.amenities.join(', '));
+
+  return parts.length > 0 ? parts.join(' · ') : 'All available properties';
+};
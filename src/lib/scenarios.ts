@@ -0,0 +1,75 @@
+import { AMENITIES, PredictionResult, ValuationRequest } from "@/lib/predictionSchema";
+
+export const MAX_SCENARIOS = 5;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  input: ValuationRequest;
+  result: PredictionResult | null;
+  running: boolean;
+}
+
+type Amenity = (typeof AMENITIES)[number];
+
+const withAmenity = (input: ValuationRequest, amenity: Amenity) =>
+  input.amenities.includes(amenity) ? input.amenities : [...input.amenities, amenity];
+
+// Common renovations, applied to a copy of the current inputs
+export const SCENARIO_PRESETS: { name: string; apply: (input: ValuationRequest) => ValuationRequest }[] = [
+  {
+    name: 'Add a garage',
+    apply: (input) => ({
+      ...input,
+      parkingSpaces: Math.min((input.parkingSpaces ?? 0) + 1, 20),
+      amenities: withAmenity(input, 'Garage'),
+    }),
+  },
+  { name: '+1 bathroom', apply: (input) => ({ ...input, bathrooms: Math.min(input.bathrooms + 1, 20) }) },
+  { name: '+1 bedroom', apply: (input) => ({ ...input, bedrooms: Math.min(input.bedrooms + 1, 20) }) },
+  // The model has no renovation feature and counts amenities without telling them apart, so
+  // this is priced as one more amenity of any kind; the name says so
+  {
+    name: 'Renovate kitchen (approx.)',
+    apply: (input) => ({ ...input, amenities: withAmenity(input, 'Updated Kitchen') }),
+  },
+  { name: 'Extend by 250 sq ft', apply: (input) => ({ ...input, area: Math.min(input.area + 250, 100000) }) },
+];
+
+export function createScenario(name: string, input: ValuationRequest): Scenario {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    input: { ...input, amenities: [...input.amenities] },
+    result: null,
+    running: false,
+  };
+}
+
+// Plain-language list of what a scenario changes relative to the base inputs
+export function describeScenarioChanges(base: ValuationRequest, input: ValuationRequest): string[] {
+  const changes: string[] = [];
+  const numeric: [keyof ValuationRequest, string][] = [
+    ['bedrooms', 'bedrooms'],
+    ['bathrooms', 'bathrooms'],
+    ['area', 'sq ft'],
+    ['parkingSpaces', 'parking'],
+  ];
+
+  for (const [field, label] of numeric) {
+    const before = Number(base[field] ?? 0);
+    const after = Number(input[field] ?? 0);
+    if (before !== after) {
+      changes.push(`${after > before ? '+' : ''}${(after - before).toLocaleString('en-US')} ${label}`);
+    }
+  }
+
+  for (const amenity of input.amenities) {
+    if (!base.amenities.includes(amenity)) changes.push(`+ ${amenity}`);
+  }
+  for (const amenity of base.amenities) {
+    if (!input.amenities.includes(amenity)) changes.push(`- ${amenity}`);
+  }
+
+  return changes;
+}
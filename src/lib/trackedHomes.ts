@@ -0,0 +1,20 @@
+import { Database } from "@/integrations/supabase/types";
+import { ValuationRequest } from "@/lib/predictionSchema";
+
+export type TrackedHome = Database['public']['Tables']['tracked_homes']['Row'];
+export type HomeValuation = Database['public']['Tables']['home_valuations']['Row'];
+
+// Percent moves an owner can be alerted at; new homes start at 5 (the column default)
+export const ALERT_THRESHOLD_OPTIONS = [2, 5, 10, 15, 20];
+
+// Homes are named after their address; the tracker only accepts homes that have one
+export const trackedHomeName = (input: ValuationRequest) =>
+  [input.address, input.city].filter(Boolean).join(', ').slice(0, 120);
+
+// Change from the first valuation to the latest, in percent
+export function valueChangePercent(valuations: HomeValuation[]) {
+  if (valuations.length < 2) return null;
+  const first = Number(valuations[0].estimated_price);
+  const latest = Number(valuations[valuations.length - 1].estimated_price);
+  return first > 0 ? ((latest - first) / first) * 100 : null;
+}
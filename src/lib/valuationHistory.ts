@@ -0,0 +1,124 @@
+import { Database, Json } from "@/integrations/supabase/types";
+import { AMENITIES, PROPERTY_TYPES, valuationRequestSchema } from "@/lib/predictionSchema";
+
+export type ValuationHistoryEntry = Database['public']['Tables']['price_predictions']['Row'];
+
+type Listing = Database['public']['Tables']['properties']['Row'];
+
+// The price prediction form keeps numbers as strings while they're being edited
+export interface ValuationFormData {
+  propertyType: string;
+  bedrooms: string;
+  bathrooms: string;
+  area: string;
+  address: string;
+  city: string;
+  state: string;
+  zipcode: string;
+  yearBuilt: string;
+  parkingSpaces: string;
+  furnished: boolean;
+  petFriendly: boolean;
+  amenities: string[];
+  // Set when the form was filled from a listing
+  latitude: string;
+  longitude: string;
+  excludeId: string;
+  // Rent mode only
+  leaseTermMonths: string;
+  utilitiesIncluded: boolean;
+}
+
+export const emptyValuationForm: ValuationFormData = {
+  propertyType: '',
+  bedrooms: '',
+  bathrooms: '',
+  area: '',
+  address: '',
+  city: '',
+  state: '',
+  zipcode: '',
+  yearBuilt: '',
+  parkingSpaces: '',
+  furnished: false,
+  petFriendly: false,
+  amenities: [],
+  latitude: '',
+  longitude: '',
+  excludeId: '',
+  leaseTermMonths: '12',
+  utilitiesIncluded: false,
+};
+
+const toText = (value: number | undefined) => (value === undefined ? '' : String(value));
+
+// Restores the form from a stored estimate's input
+export function valuationFormFromInput(input: Json): ValuationFormData {
+  const parsed = valuationRequestSchema.safeParse(input);
+  if (!parsed.success) return emptyValuationForm;
+
+  const data = parsed.data;
+  return {
+    ...emptyValuationForm,
+    propertyType: data.propertyType,
+    bedrooms: String(data.bedrooms),
+    bathrooms: String(data.bathrooms),
+    area: String(data.area),
+    address: data.address,
+    city: data.city,
+    state: data.state,
+    zipcode: data.zipcode,
+    yearBuilt: toText(data.yearBuilt),
+    parkingSpaces: toText(data.parkingSpaces),
+    furnished: data.furnished,
+    petFriendly: data.petFriendly,
+    amenities: data.amenities,
+    latitude: toText(data.latitude),
+    longitude: toText(data.longitude),
+    excludeId: data.excludeId ?? '',
+  };
+}
+
+// Fills the form from a listing. Listings allow free-form types and amenities, so
+// anything the model doesn't know is dropped rather than failing validation.
+export function valuationFormFromListing(listing: Listing): ValuationFormData {
+  const propertyType = listing.property_type.trim().toLowerCase();
+  const amenities = Array.isArray(listing.amenities) ? listing.amenities.map(String) : [];
+
+  return {
+    ...emptyValuationForm,
+    propertyType: (PROPERTY_TYPES as readonly string[]).includes(propertyType) ? propertyType : '',
+    bedrooms: String(listing.bedrooms),
+    bathrooms: String(listing.bathrooms),
+    area: String(listing.area_sqft),
+    address: listing.address,
+    city: listing.city,
+    state: listing.state,
+    zipcode: listing.zipcode ?? '',
+    yearBuilt: listing.year_built ? String(listing.year_built) : '',
+    parkingSpaces: listing.parking_spaces !== null ? String(listing.parking_spaces) : '',
+    furnished: listing.furnished ?? false,
+    petFriendly: listing.pet_friendly ?? false,
+    amenities: AMENITIES.filter((known) => amenities.some((amenity) => amenity.trim().toLowerCase() === known.toLowerCase())),
+    latitude: listing.latitude !== null ? String(listing.latitude) : '',
+    longitude: listing.longitude !== null ? String(listing.longitude) : '',
+    excludeId: listing.id,
+  };
+}
+
+// Re-runs share their original's id as source_id; for each estimate, find the one
+// before it in the same chain so the history can show how the value moved
+export function previousValuations(entries: ValuationHistoryEntry[]) {
+  const chronological = [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const latestInChain = new Map<string, ValuationHistoryEntry>();
+  const previous = new Map<string, ValuationHistoryEntry>();
+
+  for (const entry of chronological) {
+    const chain = entry.source_id ?? entry.id;
+    const before = latestInChain.get(chain);
+    if (before) previous.set(entry.id, before);
+    latestInChain.set(chain, entry);
+  }
+
+  return previous;
+}
@@ -0,0 +1,318 @@
+import { format } from "date-fns";
+import type { jsPDF } from "jspdf";
+import { PredictionResult, ValuationRequest } from "@/lib/predictionSchema";
+import { BASELINE_DESCRIPTION, waterfallSteps } from "@/lib/contributions";
+
+const BRAND = 'SmartHome Finder';
+
+// --primary, --foreground and --muted-foreground from index.css, as RGB
+const PRIMARY: [number, number, number] = [0, 115, 230];
+const TEXT: [number, number, number] = [23, 23, 28];
+const MUTED: [number, number, number] = [107, 114, 128];
+const RULE: [number, number, number] = [229, 231, 235];
+
+const PAGE_MARGIN = 48;
+const FOOTER_SPACE = 40;
+
+const METHODOLOGY = [
+  'The estimate comes from a hedonic regression on the logarithm of price, fitted to listings on ' +
+    `${BRAND}. It accounts for size, property type, rooms, age, parking, furnishing, amenities and ` +
+    'city and state price levels, with Bayesian priors keeping the fit stable where data is sparse.',
+  'The range is a prediction interval: the model expects the true value to fall inside it at the stated rate. ' +
+    'It widens for unusual properties and for places with few listings. Confidence summarises how tight the ' +
+    'range is relative to the estimate.',
+  `The price breakdown starts from the model's baseline, ${BASELINE_DESCRIPTION}, and adds the ` +
+    'effect of each feature in turn. Comparable properties are real listings from the same state, ranked by ' +
+    'similarity and distance.',
+];
+
+const DISCLAIMER =
+  'This report is an automated estimate for information only. It is not an appraisal, was not prepared by a ' +
+  'licensed appraiser, and must not be relied on as the sole basis for lending, purchase or sale decisions. ' +
+  'Actual value depends on condition, recent sales and other factors the model does not see.';
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function describeProperty(input: ValuationRequest): [string, string][] {
+  return [
+    ['Address', [input.address, input.city, `${input.state} ${input.zipcode}`.trim()].filter(Boolean).join(', ')],
+    ['Property type', capitalize(input.propertyType)],
+    ['Bedrooms / Bathrooms', `${input.bedrooms} / ${input.bathrooms}`],
+    ['Area', `${input.area.toLocaleString('en-US')} sq ft`],
+    ['Year built', input.yearBuilt ? String(input.yearBuilt) : 'Not provided'],
+    ['Parking spaces', input.parkingSpaces !== undefined ? String(input.parkingSpaces) : 'Not provided'],
+    ['Furnished / Pet friendly', `${input.furnished ? 'Yes' : 'No'} / ${input.petFriendly ? 'Yes' : 'No'}`],
+    ['Amenities', input.amenities.length > 0 ? input.amenities.join(', ') : 'None listed'],
+  ];
+}
+
+// Lays out the report top to bottom, starting a new page whenever the next block won't fit
+class ReportWriter {
+  private y = PAGE_MARGIN;
+  private readonly width: number;
+  private readonly height: number;
+
+  constructor(private readonly doc: jsPDF) {
+    this.width = doc.internal.pageSize.getWidth();
+    this.height = doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth() {
+    return this.width - PAGE_MARGIN * 2;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.height - FOOTER_SPACE) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  banner(title: string, subtitle: string) {
+    const { doc } = this;
+    doc.setFillColor(...PRIMARY);
+    doc.rect(0, 0, this.width, 84, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(BRAND.toUpperCase(), PAGE_MARGIN, 32);
+    doc.setFontSize(20);
+    doc.text(title, PAGE_MARGIN, 60);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(subtitle, this.width - PAGE_MARGIN, 60, { align: 'right' });
+    this.y = 84 + 32;
+  }
+
+  heading(text: string) {
+    const { doc } = this;
+    this.ensureSpace(40);
+    doc.setTextColor(...PRIMARY);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text(text, PAGE_MARGIN, this.y);
+    this.y += 6;
+    doc.setDrawColor(...RULE);
+    doc.line(PAGE_MARGIN, this.y, this.width - PAGE_MARGIN, this.y);
+    this.y += 16;
+  }
+
+  paragraph(text: string, { size = 10, color = TEXT }: { size?: number; color?: [number, number, number] } = {}) {
+    const { doc } = this;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lines: string[] = doc.splitTextToSize(text, this.contentWidth);
+    const lineHeight = size * 1.4;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      doc.text(line, PAGE_MARGIN, this.y);
+      this.y += lineHeight;
+    }
+    this.y += 6;
+  }
+
+  keyValues(rows: [string, string][]) {
+    const { doc } = this;
+    const labelWidth = 150;
+    doc.setFontSize(10);
+    for (const [label, value] of rows) {
+      const lines: string[] = doc.splitTextToSize(value, this.contentWidth - labelWidth);
+      this.ensureSpace(lines.length * 14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...MUTED);
+      doc.text(label, PAGE_MARGIN, this.y);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...TEXT);
+      doc.text(lines, PAGE_MARGIN + labelWidth, this.y);
+      this.y += lines.length * 14;
+    }
+    this.y += 8;
+  }
+
+  estimate(prediction: PredictionResult) {
+    const { doc } = this;
+    this.ensureSpace(90);
+    doc.setFillColor(240, 247, 255);
+    doc.roundedRect(PAGE_MARGIN, this.y, this.contentWidth, 78, 6, 6, 'F');
+
+    doc.setTextColor(...MUTED);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text('Estimated value', PAGE_MARGIN + 16, this.y + 22);
+    doc.setTextColor(...PRIMARY);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(26);
+    doc.text(formatPrice(prediction.estimatedPrice), PAGE_MARGIN + 16, this.y + 54);
+
+    const right = this.width - PAGE_MARGIN - 16;
+    doc.setTextColor(...TEXT);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`${prediction.intervalLevel}% range`, right, this.y + 22, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text(
+      `${formatPrice(prediction.priceRange.min)} - ${formatPrice(prediction.priceRange.max)}`,
+      right,
+      this.y + 42,
+      { align: 'right' }
+    );
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`${prediction.confidence}% confidence`, right, this.y + 60, { align: 'right' });
+
+    this.y += 78 + 24;
+  }
+
+  table(columns: { header: string; width: number; align?: 'left' | 'right' }[], rows: string[][]) {
+    const { doc } = this;
+    const rowHeight = 20;
+    const drawRow = (cells: string[], header: boolean) => {
+      doc.setFont('helvetica', header ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(...(header ? MUTED : TEXT));
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, i) => {
+        const { width, align = 'left' } = columns[i];
+        const text: string = doc.splitTextToSize(cell, width - 8)[0] ?? '';
+        doc.text(text, align === 'right' ? x + width - 4 : x + 4, this.y, { align });
+        x += width;
+      });
+      doc.setDrawColor(...RULE);
+      doc.line(PAGE_MARGIN, this.y + 7, this.width - PAGE_MARGIN, this.y + 7);
+      this.y += rowHeight;
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawRow(columns.map((column) => column.header), true);
+    for (const row of rows) {
+      if (this.y + rowHeight > this.height - FOOTER_SPACE) {
+        this.ensureSpace(rowHeight * 2);
+        drawRow(columns.map((column) => column.header), true);
+      }
+      drawRow(row, false);
+    }
+    this.y += 10;
+  }
+
+  footers(generatedAt: Date) {
+    const { doc } = this;
+    const pages = doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      doc.setPage(page);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...MUTED);
+      doc.text(`${BRAND} valuation report · ${format(generatedAt, 'MMMM d, yyyy')}`, PAGE_MARGIN, this.height - 24);
+      doc.text(`Page ${page} of ${pages}`, this.width - PAGE_MARGIN, this.height - 24, { align: 'right' });
+    }
+  }
+}
+
+// Builds the PDF in the browser; jsPDF is loaded on demand so it stays out of the main bundle
+export async function createValuationReport(prediction: PredictionResult, input: ValuationRequest) {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const generatedAt = new Date();
+  const writer = new ReportWriter(doc);
+
+  doc.setProperties({
+    title: `Valuation report - ${input.address || input.city}`,
+    author: BRAND,
+    creator: BRAND,
+  });
+
+  writer.banner('Property Valuation Report', format(generatedAt, 'MMMM d, yyyy'));
+
+  writer.heading('Property');
+  writer.keyValues(describeProperty(input));
+
+  writer.heading('Valuation');
+  writer.estimate(prediction);
+  if (prediction.narrative) {
+    writer.paragraph(prediction.narrative.summary);
+    for (const driver of prediction.narrative.keyDrivers) {
+      writer.paragraph(`- ${driver}`, { size: 9, color: MUTED });
+    }
+  }
+
+  writer.heading('Price breakdown');
+  if (prediction.contributions) {
+    writer.paragraph('How much each feature adds to or takes off the estimate.', { size: 9, color: MUTED });
+    writer.table(
+      [
+        { header: 'Step', width: writer.contentWidth - 240 },
+        { header: 'Change', width: 120, align: 'right' },
+        { header: 'Running total', width: 120, align: 'right' },
+      ],
+      waterfallSteps(prediction.contributions).map((step) => [
+        step.label,
+        step.kind === 'increase' ? `+${formatPrice(step.amount)}` : step.kind === 'decrease' ? `-${formatPrice(-step.amount)}` : '',
+        formatPrice(step.to),
+      ])
+    );
+  } else {
+    writer.paragraph('This estimate was saved before price breakdowns were available. Refresh it to include one.', {
+      color: MUTED,
+    });
+  }
+
+  writer.heading('Comparable properties');
+  if (prediction.comparableProperties.length === 0) {
+    writer.paragraph('No comparable listings were found in this state.', { color: MUTED });
+  } else {
+    writer.table(
+      [
+        { header: 'Listing', width: 170 },
+        { header: 'Price', width: 80, align: 'right' },
+        { header: 'Beds / Baths', width: 70, align: 'right' },
+        { header: 'Sq ft', width: 60, align: 'right' },
+        { header: 'Distance', width: 70, align: 'right' },
+        { header: 'Similarity', width: writer.contentWidth - 450, align: 'right' },
+      ],
+      prediction.comparableProperties.map((comp) => [
+        `${comp.title}, ${comp.city}`,
+        formatPrice(comp.price),
+        `${comp.bedrooms} / ${comp.bathrooms}`,
+        comp.areaSqft.toLocaleString('en-US'),
+        comp.distanceMiles !== null ? `${comp.distanceMiles} mi` : '-',
+        `${comp.similarity}%`,
+      ])
+    );
+  }
+
+  writer.heading('Methodology');
+  for (const paragraph of METHODOLOGY) {
+    writer.paragraph(paragraph, { size: 9 });
+  }
+  writer.paragraph(
+    `Model ${prediction.model.version}, trained ${format(new Date(prediction.model.trainedAt), 'MMMM d, yyyy')} ` +
+      `on ${prediction.model.sampleSize} listings.`,
+    { size: 9, color: MUTED }
+  );
+
+  writer.heading('Disclaimer');
+  writer.paragraph(DISCLAIMER, { size: 9, color: MUTED });
+
+  writer.footers(generatedAt);
+  return doc;
+}
+
+export function valuationReportFileName(input: ValuationRequest, date = new Date()) {
+  const place = [input.address, input.city, input.state]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `valuation-${place || 'property'}-${format(date, 'yyyy-MM-dd')}.pdf`;
+}
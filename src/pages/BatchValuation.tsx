@@ -0,0 +1,373 @@
+import { useState, useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, FileSpreadsheet, Loader2, Play, Square, Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { PredictionQuota, predictionResultSchema } from "@/lib/predictionSchema";
+import { downloadCsv } from "@/lib/csv";
+import {
+  BATCH_CONCURRENCY,
+  BATCH_TEMPLATE,
+  BatchRow,
+  BatchRowStatus,
+  batchResultsCsv,
+  isQueuedRow,
+  MAX_BATCH_ROWS,
+  parseBatchCsv,
+  releaseWaitingRows,
+  runWithConcurrency,
+} from "@/lib/batchValuation";
+
+// Per-minute limits clear quickly, so a few waits are worth it before giving up on a row
+const MAX_ATTEMPTS = 4;
+
+const STATUS_BADGES: Record<BatchRowStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  invalid: { label: 'Invalid', variant: 'destructive' },
+  pending: { label: 'Pending', variant: 'outline' },
+  running: { label: 'Running', variant: 'secondary' },
+  waiting: { label: 'Waiting', variant: 'secondary' },
+  done: { label: 'Done', variant: 'default' },
+  error: { label: 'Failed', variant: 'destructive' },
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const BatchValuation = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [quota, setQuota] = useState<PredictionQuota | null>(null);
+  const stopRequested = useRef(false);
+
+  useEffect(() => {
+    const fetchQuota = async () => {
+      const { data, error } = await supabase.functions.invoke('predict-price', { method: 'GET' });
+      if (error) {
+        console.error('Error fetching estimate quota:', error);
+      } else {
+        setQuota(data.quota);
+      }
+    };
+
+    fetchQuota();
+  }, [user?.id]);
+
+  const updateRow = (line: number, updates: Partial<BatchRow>) => {
+    setRows((prev) => prev.map((row) => (row.line === line ? { ...row, ...updates } : row)));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (quota?.remaining === 0) {
+      toast({
+        title: "Daily limit reached",
+        description: "You have no estimates left today. Try again tomorrow.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Never load more rows than the estimates left today
+    const maxRows = Math.min(MAX_BATCH_ROWS, quota?.remaining ?? MAX_BATCH_ROWS);
+    const { rows: parsedRows, missingColumns, truncated } = parseBatchCsv(await file.text(), maxRows);
+
+    if (missingColumns.length > 0) {
+      toast({
+        title: "Missing columns",
+        description: `The CSV needs these columns: ${missingColumns.join(', ')}. Download the template to see the format.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (parsedRows.length === 0) {
+      toast({
+        title: "No properties found",
+        description: "Add one property per row below the header.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (truncated) {
+      toast({
+        title: `Only the first ${maxRows} rows were loaded`,
+        description: maxRows < MAX_BATCH_ROWS
+          ? `You have ${maxRows} estimates left today. Load the rest tomorrow.`
+          : "Split larger portfolios into several files.",
+      });
+    }
+
+    setFileName(file.name);
+    setRows(parsedRows);
+  };
+
+  const estimateRow = async (row: BatchRow) => {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (stopRequested.current) return;
+      updateRow(row.line, { status: 'running', errors: [] });
+
+      try {
+        // Batch estimates stay out of the valuation history and skip the LLM narrative
+        const { data, error } = await supabase.functions.invoke('predict-price', {
+          body: { ...row.request, saveToHistory: false, narrative: false },
+        });
+
+        if (error instanceof FunctionsHttpError && error.context.status === 429) {
+          const body = await error.context.json().catch(() => ({}));
+          if (body.quota) setQuota(body.quota);
+
+          // Out for the day: leave the rest pending so the batch can resume tomorrow
+          if (body.quota?.remaining === 0) {
+            stopRequested.current = true;
+            updateRow(row.line, { status: 'pending', errors: ['Daily estimate limit reached'] });
+            return;
+          }
+
+          const retryAfter = Number(error.context.headers.get('Retry-After') ?? body.retryAfter ?? 60);
+          updateRow(row.line, { status: 'waiting', errors: [`Rate limited, retrying in ${retryAfter}s`] });
+          await sleep(retryAfter * 1000);
+          continue;
+        }
+
+        if (error instanceof FunctionsHttpError && error.context.status === 400) {
+          const body = await error.context.json().catch(() => ({}));
+          const fieldErrors = Object.entries((body.fieldErrors ?? {}) as Record<string, string[]>)
+            .map(([field, messages]) => `${field}: ${messages[0]}`);
+          updateRow(row.line, { status: 'invalid', errors: fieldErrors.length > 0 ? fieldErrors : ['Invalid property data'] });
+          return;
+        }
+
+        if (error) {
+          throw error;
+        }
+
+        if (data.quota) setQuota(data.quota);
+
+        const result = predictionResultSchema.safeParse(data?.prediction);
+        if (!result.success) {
+          throw new Error(`Invalid prediction response: ${result.error.message}`);
+        }
+
+        updateRow(row.line, { status: 'done', prediction: result.data, errors: [] });
+        return;
+      } catch (error) {
+        console.error(`Error valuing row ${row.line}:`, error);
+        updateRow(row.line, { status: 'error', errors: ['Estimate failed'] });
+        return;
+      }
+    }
+
+    updateRow(row.line, { status: 'error', errors: ['Rate limited, try again later'] });
+  };
+
+  const runBatch = async () => {
+    stopRequested.current = false;
+    setRunning(true);
+
+    // Failed rows get another chance on each run; finished rows are kept
+    const queue = rows.filter(isQueuedRow);
+    await runWithConcurrency(queue, BATCH_CONCURRENCY, estimateRow);
+    setRows(releaseWaitingRows);
+
+    setRunning(false);
+    if (!stopRequested.current) {
+      toast({
+        title: "Batch complete",
+        description: "Export the results to download them as CSV.",
+      });
+    }
+  };
+
+  const exportResults = () => {
+    const base = fileName?.replace(/\.csv$/i, '') || 'valuations';
+    downloadCsv(`${base}-results.csv`, batchResultsCsv(rows));
+  };
+
+  const reset = () => {
+    setRows([]);
+    setFileName(null);
+  };
+
+  const valid = rows.filter((row) => row.request !== null && row.status !== 'invalid');
+  const finished = valid.filter((row) => row.status === 'done' || row.status === 'error').length;
+  const queued = rows.filter(isQueuedRow).length;
+  const invalid = rows.length - valid.length;
+
+  return (
+    <div className="container max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="-ml-3 mb-2" asChild>
+            <Link to="/price-prediction">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Price Prediction
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground">Batch Valuation</h1>
+          <p className="text-muted-foreground">
+            Value a portfolio from a CSV with one property per row, using the same fields as the prediction form.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => downloadCsv('valuation-template.csv', BATCH_TEMPLATE)}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Download template
+        </Button>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="h-5 w-5 mr-2" />
+            Upload CSV
+          </CardTitle>
+          <CardDescription>
+            Required columns: propertyType, bedrooms, bathrooms, area, city, state. Separate amenities with
+            semicolons. Each new estimate counts against your daily limit, so a file loads up to {MAX_BATCH_ROWS} rows
+            or the estimates you have left, whichever is fewer. Batch estimates aren't saved to your history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="max-w-sm"
+              disabled={running}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {quota && (
+              <p className="text-sm text-muted-foreground">
+                {quota.remaining} of {quota.dailyLimit} estimates left today
+                {!quota.signedIn && (
+                  <>
+                    {' · '}
+                    <Link to="/auth" className="text-primary hover:underline">Sign in</Link> for more
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {fileName}: {rows.length} {rows.length === 1 ? 'row' : 'rows'}
+                  {invalid > 0 && <span className="text-destructive"> · {invalid} invalid</span>}
+                  {quota && queued > quota.remaining && (
+                    <span className="text-destructive"> · only {quota.remaining} estimates left today</span>
+                  )}
+                </p>
+                <div className="flex gap-2">
+                  {running ? (
+                    <Button variant="outline" onClick={() => { stopRequested.current = true; }}>
+                      <Square className="mr-2 h-4 w-4" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button onClick={runBatch} disabled={queued === 0}>
+                      <Play className="mr-2 h-4 w-4" />
+                      Run {queued} {queued === 1 ? 'valuation' : 'valuations'}
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={exportResults} disabled={running}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export results
+                  </Button>
+                  <Button variant="ghost" onClick={reset} disabled={running}>
+                    Clear
+                  </Button>
+                </div>
+              </div>
+              <Progress value={valid.length === 0 ? 0 : (100 * finished) / valid.length} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card className="border-border/50 shadow-card">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Line</TableHead>
+                  <TableHead>Property</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Estimate</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">
+                        {row.values.address || [row.values.city, row.values.state].filter(Boolean).join(', ') || '-'}
+                      </div>
+                      <div className="text-xs text-muted-foreground capitalize">
+                        {[row.values.propertyType, row.values.bedrooms && `${row.values.bedrooms} bd`, row.values.area && `${row.values.area} sqft`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGES[row.status].variant}>
+                        {(row.status === 'running' || row.status === 'waiting') && (
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        )}
+                        {STATUS_BADGES[row.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.prediction && (
+                        <>
+                          <div className="font-medium">{formatPrice(row.prediction.estimatedPrice)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatPrice(row.prediction.priceRange.min)} - {formatPrice(row.prediction.priceRange.max)}
+                          </div>
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {row.errors.map((error) => (
+                        <div key={error}>{error}</div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BatchValuation;
@@ -0,0 +1,403 @@
+import { useState, useEffect, useRef, Fragment } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { badgeVariants } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  MessageSquare,
+  Plus,
+  Send,
+  Loader2,
+  Trash2,
+  Bot,
+  User
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+
+type Conversation = Database['public']['Tables']['chat_conversations']['Row'];
+type ChatMessage = Database['public']['Tables']['chat_messages']['Row'];
+type CitedProperty = Pick<Database['public']['Tables']['properties']['Row'], 'id' | 'title' | 'price' | 'city' | 'state'>;
+
+const CITATION_PATTERN = /\[id:([0-9a-f-]{36})\]/g;
+
+const suggestions = [
+  "Show me 3-bedroom houses under $900k",
+  "What pet-friendly apartments are available in New York?",
+  "Estimate the value of a 2,000 sqft house in Austin, TX",
+];
+
+const getCitedIds = (message: ChatMessage) =>
+  Array.isArray(message.cited_property_ids) ? message.cited_property_ids.map(String) : [];
+
+const Chat = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const requestedCitations = useRef<Set<string>>(new Set());
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [citedProperties, setCitedProperties] = useState<Record<string, CitedProperty>>({});
+  const [input, setInput] = useState('');
+  const [sending, setSending] = useState(false);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchConversations = async () => {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching conversations:', error);
+      } else {
+        setConversations(data || []);
+      }
+    };
+
+    fetchConversations();
+  }, [user]);
+
+  useEffect(() => {
+    if (!activeId) {
+      setMessages([]);
+      return;
+    }
+
+    const fetchMessages = async () => {
+      setLoadingMessages(true);
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select('*')
+        .eq('conversation_id', activeId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching messages:', error);
+      } else {
+        setMessages(data || []);
+      }
+      setLoadingMessages(false);
+    };
+
+    fetchMessages();
+  }, [activeId]);
+
+  // Resolve cited listings so answers can link to the real rows
+  useEffect(() => {
+    const missing = [...new Set(messages.flatMap(getCitedIds))].filter((id) => !requestedCitations.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedCitations.current.add(id));
+
+    const fetchCited = async () => {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, title, price, city, state')
+        .in('id', missing);
+
+      if (error) {
+        console.error('Error fetching cited properties:', error);
+      } else if (data) {
+        setCitedProperties((prev) => ({
+          ...prev,
+          ...Object.fromEntries(data.map((property) => [property.id, property])),
+        }));
+      }
+    };
+
+    fetchCited();
+  }, [messages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, sending]);
+
+  const sendMessage = async (text: string) => {
+    const content = text.trim();
+    if (!content || sending) return;
+
+    const optimistic: ChatMessage = {
+      id: `pending-${Date.now()}`,
+      conversation_id: activeId ?? '',
+      user_id: user!.id,
+      role: 'user',
+      content,
+      cited_property_ids: [],
+      created_at: new Date().toISOString(),
+    };
+    setMessages((prev) => [...prev, optimistic]);
+    setInput('');
+    setSending(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('property-chat', {
+        body: { conversationId: activeId, message: content },
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      if (!activeId) {
+        const { data: conversation } = await supabase
+          .from('chat_conversations')
+          .select('*')
+          .eq('id', data.conversationId)
+          .single();
+        if (conversation) {
+          setConversations((prev) => [conversation, ...prev]);
+        }
+        setActiveId(data.conversationId);
+      } else {
+        setMessages((prev) => [...prev, data.message]);
+        setConversations((prev) => {
+          const current = prev.find((c) => c.id === activeId);
+          return current ? [current, ...prev.filter((c) => c.id !== activeId)] : prev;
+        });
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      setMessages((prev) => prev.filter((m) => m.id !== optimistic.id));
+      setInput(content);
+
+      if (error instanceof FunctionsHttpError && error.context.status === 429) {
+        const body = await error.context.json().catch(() => ({}));
+        const retryAfter = Number(error.context.headers.get('Retry-After') ?? body.retryAfter ?? 60);
+        toast({
+          title: body.error ?? "Too many messages",
+          description: `You can send another message in ${formatDistanceToNow(new Date(Date.now() + retryAfter * 1000))}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Message failed",
+        description: "The assistant couldn't respond. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', conversationId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setConversations((prev) => prev.filter((c) => c.id !== conversationId));
+    if (activeId === conversationId) {
+      setActiveId(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendMessage(input);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage(input);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const renderContent = (content: string) =>
+    content.split(CITATION_PATTERN).map((part, index) => {
+      // split() with a capture group puts the ids at odd indexes
+      if (index % 2 === 0) return <Fragment key={index}>{part}</Fragment>;
+      const property = citedProperties[part];
+      return (
+        <Link key={index} to={`/property/${part}`} className="text-primary underline underline-offset-2">
+          {property ? property.title : 'listing'}
+        </Link>
+      );
+    });
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <MessageSquare className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">AI Assistant</h1>
+        <p className="text-muted-foreground">
+          Sign in to chat with our assistant about listings, neighborhoods and prices.
+        </p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto px-4 py-6">
+      <div className="grid md:grid-cols-[16rem_1fr] gap-4 h-[calc(100vh-7rem)]">
+        {/* Conversations */}
+        <Card className="hidden md:flex flex-col border-border/50 overflow-hidden">
+          <div className="p-3 border-b">
+            <Button className="w-full" variant="outline" onClick={() => setActiveId(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New chat
+            </Button>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-1">
+              {conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={cn(
+                    "group flex items-center rounded-md px-3 py-2 text-sm cursor-pointer hover:bg-muted",
+                    activeId === conversation.id && "bg-muted font-medium"
+                  )}
+                  onClick={() => setActiveId(conversation.id)}
+                >
+                  <span className="flex-1 truncate">{conversation.title}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteConversation(conversation.id);
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </Card>
+
+        {/* Messages */}
+        <Card className="flex flex-col border-border/50 overflow-hidden">
+          <ScrollArea className="flex-1">
+            <div className="p-4 space-y-4">
+              {loadingMessages ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : messages.length === 0 ? (
+                <div className="text-center py-12 space-y-4">
+                  <div className="w-16 h-16 bg-accent/10 rounded-full flex items-center justify-center mx-auto">
+                    <Bot className="h-8 w-8 text-accent" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-semibold text-foreground">How can I help?</h2>
+                    <p className="text-muted-foreground">
+                      Ask about available listings, compare homes, or get a price estimate.
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {suggestions.map((suggestion) => (
+                      <Button key={suggestion} variant="outline" size="sm" onClick={() => sendMessage(suggestion)}>
+                        {suggestion}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                messages.map((message) => {
+                  const cited = getCitedIds(message).map((id) => citedProperties[id]).filter(Boolean);
+                  return (
+                    <div
+                      key={message.id}
+                      className={cn("flex gap-3", message.role === 'user' && "flex-row-reverse")}
+                    >
+                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                        {message.role === 'user' ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4 text-accent" />}
+                      </div>
+                      <div
+                        className={cn(
+                          "max-w-[80%] rounded-lg px-4 py-2 space-y-2",
+                          message.role === 'user' ? "bg-primary text-primary-foreground" : "bg-muted"
+                        )}
+                      >
+                        <p className="text-sm whitespace-pre-wrap">{renderContent(message.content)}</p>
+                        {cited.length > 0 && (
+                          <div className="flex flex-wrap gap-2 pt-1">
+                            {cited.map((property) => (
+                              <Link
+                                key={property.id}
+                                to={`/property/${property.id}`}
+                                className={cn(badgeVariants({ variant: 'outline' }), "bg-background text-foreground")}
+                              >
+                                {property.title} · {formatPrice(property.price)}
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+              {sending && (
+                <div className="flex gap-3">
+                  <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                    <Bot className="h-4 w-4 text-accent" />
+                  </div>
+                  <div className="rounded-lg bg-muted px-4 py-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  </div>
+                </div>
+              )}
+              <div ref={bottomRef} />
+            </div>
+          </ScrollArea>
+
+          <form onSubmit={handleSubmit} className="border-t p-3 flex gap-2">
+            <Textarea
+              placeholder="Ask about properties, prices or neighborhoods..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              rows={1}
+              className="min-h-[2.5rem] resize-none"
+            />
+            <Button type="submit" size="icon" disabled={sending || !input.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Chat;
@@ -0,0 +1,500 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Heart,
+  MapPin,
+  Bed,
+  Bath,
+  Maximize,
+  FolderPlus,
+  Folder,
+  Pencil,
+  Trash2,
+  StickyNote
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+
+type Collection = Database['public']['Tables']['favorite_collections']['Row'];
+type Favorite = Database['public']['Tables']['user_favorites']['Row'] & {
+  properties: Database['public']['Tables']['properties']['Row'] | null;
+};
+
+const ALL = 'all';
+const UNSORTED = 'unsorted';
+
+const Favorites = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeCollection, setActiveCollection] = useState<string>(ALL);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const [collectionDialog, setCollectionDialog] = useState<{ open: boolean; collection: Collection | null }>({ open: false, collection: null });
+  const [collectionName, setCollectionName] = useState('');
+  const [confirmRemove, setConfirmRemove] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const [favoritesResult, collectionsResult] = await Promise.all([
+          supabase
+            .from('user_favorites')
+            .select('*, properties(*)')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('favorite_collections')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('name'),
+        ]);
+
+        if (favoritesResult.error || collectionsResult.error) {
+          console.error('Error fetching favorites:', favoritesResult.error || collectionsResult.error);
+          toast({
+            title: "Error loading favorites",
+            description: "Please try again later.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        setFavorites(favoritesResult.data || []);
+        setCollections(collectionsResult.data || []);
+        setNotes(Object.fromEntries((favoritesResult.data || []).map((fav) => [fav.id, fav.note || ''])));
+      } catch (error) {
+        console.error('Error:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user, toast]);
+
+  const visibleFavorites = useMemo(() => {
+    if (activeCollection === ALL) return favorites;
+    if (activeCollection === UNSORTED) return favorites.filter((fav) => !fav.collection_id);
+    return favorites.filter((fav) => fav.collection_id === activeCollection);
+  }, [favorites, activeCollection]);
+
+  const countFor = (collectionId: string | null) =>
+    favorites.filter((fav) => fav.collection_id === collectionId).length;
+
+  const toggleSelected = (favoriteId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(favoriteId);
+      else next.delete(favoriteId);
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visibleFavorites.length > 0 && visibleFavorites.every((fav) => selected.has(fav.id));
+
+  const toggleSelectAll = (checked: boolean) => {
+    setSelected(checked ? new Set(visibleFavorites.map((fav) => fav.id)) : new Set());
+  };
+
+  const openCollectionDialog = (collection: Collection | null) => {
+    setCollectionName(collection?.name ?? '');
+    setCollectionDialog({ open: true, collection });
+  };
+
+  const saveCollection = async () => {
+    const name = collectionName.trim();
+    if (!name || !user) return;
+
+    const editing = collectionDialog.collection;
+    const { data, error } = editing
+      ? await supabase.from('favorite_collections').update({ name }).eq('id', editing.id).select('*').single()
+      : await supabase.from('favorite_collections').insert({ user_id: user.id, name }).select('*').single();
+
+    if (error) {
+      toast({
+        title: "Couldn't save collection",
+        description: error.code === '23505' ? "You already have a collection with that name." : "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCollections((prev) =>
+      (editing ? prev.map((c) => (c.id === data.id ? data : c)) : [...prev, data])
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setCollectionDialog({ open: false, collection: null });
+  };
+
+  const deleteCollection = async (collection: Collection) => {
+    const { error } = await supabase
+      .from('favorite_collections')
+      .delete()
+      .eq('id', collection.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete collection. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Favorites are kept; the FK moves them back to unsorted
+    setCollections((prev) => prev.filter((c) => c.id !== collection.id));
+    setFavorites((prev) => prev.map((fav) => (fav.collection_id === collection.id ? { ...fav, collection_id: null } : fav)));
+    if (activeCollection === collection.id) setActiveCollection(ALL);
+  };
+
+  const moveToCollection = async (favoriteIds: string[], collectionId: string | null) => {
+    if (favoriteIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('user_favorites')
+      .update({ collection_id: collectionId })
+      .in('id', favoriteIds);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to move properties. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFavorites((prev) => prev.map((fav) => (favoriteIds.includes(fav.id) ? { ...fav, collection_id: collectionId } : fav)));
+  };
+
+  const saveNote = async (favorite: Favorite) => {
+    const note = (notes[favorite.id] ?? '').trim();
+    if (note === (favorite.note ?? '')) return;
+
+    const { error } = await supabase
+      .from('user_favorites')
+      .update({ note: note || null })
+      .eq('id', favorite.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save note. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFavorites((prev) => prev.map((fav) => (fav.id === favorite.id ? { ...fav, note: note || null } : fav)));
+  };
+
+  const removeSelected = async () => {
+    const ids = [...selected];
+    const { error } = await supabase
+      .from('user_favorites')
+      .delete()
+      .in('id', ids);
+
+    setConfirmRemove(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove properties. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFavorites((prev) => prev.filter((fav) => !selected.has(fav.id)));
+    setSelected(new Set());
+    toast({
+      title: "Removed from favorites",
+      description: `${ids.length} ${ids.length === 1 ? 'property' : 'properties'} removed from your saved list.`,
+    });
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <Heart className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">Saved Properties</h1>
+        <p className="text-muted-foreground">Sign in to see the properties you've saved.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const collectionButton = (id: string, label: string, count: number) => (
+    <button
+      type="button"
+      onClick={() => {
+        setActiveCollection(id);
+        setSelected(new Set());
+      }}
+      className={cn(
+        "flex w-full items-center justify-between rounded-md px-3 py-2 text-sm hover:bg-muted",
+        activeCollection === id && "bg-muted font-medium"
+      )}
+    >
+      <span className="truncate">{label}</span>
+      <span className="text-xs text-muted-foreground">{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="container max-w-7xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground">Saved Properties</h1>
+        <p className="text-muted-foreground">
+          {loading ? 'Loading...' : `${favorites.length} saved ${favorites.length === 1 ? 'property' : 'properties'}`}
+        </p>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Collections */}
+        <Card className="lg:w-64 p-4 h-fit space-y-1">
+          {collectionButton(ALL, 'All saved', favorites.length)}
+          {collectionButton(UNSORTED, 'Unsorted', countFor(null))}
+          <div className="pt-3 pb-1 px-3 text-xs font-semibold uppercase text-muted-foreground">Collections</div>
+          {collections.map((collection) => (
+            <div key={collection.id} className="group flex items-center">
+              <div className="flex-1 min-w-0">{collectionButton(collection.id, collection.name, countFor(collection.id))}</div>
+              <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100" onClick={() => openCollectionDialog(collection)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100" onClick={() => deleteCollection(collection)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="ghost" size="sm" className="w-full justify-start" onClick={() => openCollectionDialog(null)}>
+            <FolderPlus className="mr-2 h-4 w-4" />
+            New collection
+          </Button>
+        </Card>
+
+        <div className="flex-1 space-y-4">
+          {/* Bulk actions */}
+          {visibleFavorites.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox id="select-all" checked={allVisibleSelected} onCheckedChange={(checked) => toggleSelectAll(!!checked)} />
+                <label htmlFor="select-all" className="text-sm">
+                  {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+                </label>
+              </div>
+              {selected.size > 0 && (
+                <>
+                  <Select onValueChange={(value) => moveToCollection([...selected], value === UNSORTED ? null : value)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Move to collection" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNSORTED}>Unsorted</SelectItem>
+                      {collections.map((collection) => (
+                        <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="destructive" size="sm" onClick={() => setConfirmRemove(true)}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Card key={i} className="h-40 animate-pulse bg-muted/50" />
+              ))}
+            </div>
+          ) : visibleFavorites.length === 0 ? (
+            <div className="text-center py-12 space-y-4">
+              <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto">
+                <Heart className="h-12 w-12 text-muted-foreground" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-foreground mb-2">Nothing saved here yet</h3>
+                <p className="text-muted-foreground">Tap the heart on any listing to save it.</p>
+              </div>
+              <Button asChild>
+                <Link to="/properties">Browse Properties</Link>
+              </Button>
+            </div>
+          ) : (
+            visibleFavorites.map((favorite) => {
+              const property = favorite.properties;
+              if (!property) return null;
+              return (
+                <Card key={favorite.id} className="border-border/50 overflow-hidden">
+                  <div className="flex flex-col sm:flex-row">
+                    <div className="relative sm:w-56 flex-shrink-0">
+                      <img
+                        src={Array.isArray(property.images) && property.images.length > 0 ? String(property.images[0]) : '/placeholder.svg'}
+                        alt={property.title}
+                        className="w-full h-40 sm:h-full object-cover"
+                      />
+                      <Checkbox
+                        className="absolute top-3 left-3 bg-background"
+                        checked={selected.has(favorite.id)}
+                        onCheckedChange={(checked) => toggleSelected(favorite.id, !!checked)}
+                      />
+                    </div>
+                    <CardContent className="flex-1 p-4 space-y-3">
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div>
+                          <Link to={`/property/${property.id}`} className="text-lg font-semibold hover:text-primary">
+                            {property.title}
+                          </Link>
+                          <div className="flex items-center text-sm text-muted-foreground">
+                            <MapPin className="h-4 w-4 mr-1" />
+                            {property.city}, {property.state}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-xl font-bold text-primary">{formatPrice(property.price)}</div>
+                          {property.status && property.status !== 'available' && (
+                            <Badge variant="secondary" className="capitalize">{property.status}</Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                        <span className="flex items-center"><Bed className="h-4 w-4 mr-1" />{property.bedrooms}</span>
+                        <span className="flex items-center"><Bath className="h-4 w-4 mr-1" />{property.bathrooms}</span>
+                        <span className="flex items-center"><Maximize className="h-4 w-4 mr-1" />{property.area_sqft} sqft</span>
+                      </div>
+                      <div className="grid sm:grid-cols-[12rem_1fr] gap-3">
+                        <Select
+                          value={favorite.collection_id ?? UNSORTED}
+                          onValueChange={(value) => moveToCollection([favorite.id], value === UNSORTED ? null : value)}
+                        >
+                          <SelectTrigger>
+                            <Folder className="mr-2 h-4 w-4 text-muted-foreground" />
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNSORTED}>Unsorted</SelectItem>
+                            {collections.map((collection) => (
+                              <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="relative">
+                          <StickyNote className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <Textarea
+                            placeholder="Private note (only you can see this)"
+                            value={notes[favorite.id] ?? ''}
+                            onChange={(e) => setNotes((prev) => ({ ...prev, [favorite.id]: e.target.value }))}
+                            onBlur={() => saveNote(favorite)}
+                            rows={2}
+                            maxLength={1000}
+                            className="pl-9 min-h-[2.5rem]"
+                          />
+                        </div>
+                      </div>
+                    </CardContent>
+                  </div>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {/* Create / rename collection */}
+      <Dialog open={collectionDialog.open} onOpenChange={(open) => setCollectionDialog((prev) => ({ ...prev, open }))}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{collectionDialog.collection ? 'Rename collection' : 'New collection'}</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="e.g. Weekend viewings"
+            value={collectionName}
+            maxLength={80}
+            onChange={(e) => setCollectionName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveCollection()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCollectionDialog({ open: false, collection: null })}>
+              Cancel
+            </Button>
+            <Button onClick={saveCollection} disabled={!collectionName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk remove confirmation */}
+      <AlertDialog open={confirmRemove} onOpenChange={setConfirmRemove}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {selected.size} saved {selected.size === 1 ? 'property' : 'properties'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their notes will be deleted as well. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={removeSelected}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Favorites;
@@ -21,6 +21,7 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Database } from "@/integrations/supabase/types";
+import { DealScoreBadge } from "@/components/properties/DealScoreBadge";
 
 type Property = Database['public']['Tables']['properties']['Row'];
 
@@ -190,6 +191,11 @@ const Home = () => {
                     <Badge className="absolute top-3 left-3 bg-primary">
                       {String(property.property_type)}
                     </Badge>
+                    <DealScoreBadge
+                      dealScore={property.deal_score}
+                      estimatedPrice={property.estimated_price}
+                      className="absolute bottom-3 left-3"
+                    />
                     {user && (
                       <Button
                         variant="ghost"
@@ -259,7 +265,7 @@ const Home = () => {
               <CardHeader className="p-0">
                 <CardTitle className="text-xl">Price Prediction</CardTitle>
                 <CardDescription>
-                  Get accurate property valuations using advanced AI algorithms and market data
+                  Estimate a home's value with a statistical model fitted to recorded sale prices
                 </CardDescription>
               </CardHeader>
               <Button variant="outline" asChild className="w-full">
@@ -0,0 +1,307 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Calculator, Home, LineChart, RefreshCw, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { HomeValueChart } from "@/components/homes/HomeValueChart";
+import {
+  ALERT_THRESHOLD_OPTIONS,
+  HomeValuation,
+  TrackedHome,
+  valueChangePercent,
+} from "@/lib/trackedHomes";
+
+type TrackedHomeWithValuations = TrackedHome & {
+  home_valuations: HomeValuation[];
+};
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const HomeValues = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [homes, setHomes] = useState<TrackedHomeWithValuations[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<TrackedHome | null>(null);
+
+  const fetchHomes = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from('tracked_homes')
+      .select('*, home_valuations(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('created_at', { referencedTable: 'home_valuations', ascending: true });
+
+    if (error) {
+      console.error('Error fetching tracked homes:', error);
+      toast({
+        title: "Error loading your homes",
+        description: "Please try again later.",
+        variant: "destructive",
+      });
+    } else {
+      setHomes(data || []);
+    }
+  }, [toast]);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    fetchHomes(userId).finally(() => setLoading(false));
+  }, [userId, fetchHomes]);
+
+  const updateHome = async (id: string, updates: Partial<Pick<TrackedHome, 'paused' | 'alert_threshold_percent'>>) => {
+    const { error } = await supabase
+      .from('tracked_homes')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: "Couldn't update home",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setHomes((prev) => prev.map((h) => (h.id === id ? { ...h, ...updates } : h)));
+  };
+
+  const refreshValue = async (home: TrackedHome) => {
+    if (!user) return;
+
+    setRefreshing(home.id);
+    const { error } = await supabase.functions.invoke('home-values', { body: { homeId: home.id } });
+
+    if (error) {
+      const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => ({})) : {};
+      console.error('Error updating home value:', error);
+      toast({
+        title: "Couldn't update the value",
+        description: body.error ?? "Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      await fetchHomes(user.id);
+    }
+    setRefreshing(null);
+  };
+
+  const deleteHome = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase
+      .from('tracked_homes')
+      .delete()
+      .eq('id', deleting.id);
+
+    if (error) {
+      toast({
+        title: "Couldn't stop tracking home",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      setHomes((prev) => prev.filter((h) => h.id !== deleting.id));
+      toast({
+        title: "Home removed",
+        description: `"${deleting.name}" and its value history were deleted.`,
+      });
+    }
+    setDeleting(null);
+  };
+
+  const renderChange = (change: number | null) => {
+    if (change === null) return null;
+    const sign = change > 0 ? '+' : '';
+    return (
+      <span className={change > 0 ? 'text-success' : change < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+        {sign}{change.toFixed(1)}% since tracking began
+      </span>
+    );
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <LineChart className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">My Homes</h1>
+        <p className="text-muted-foreground">Sign in to follow your home's value over time.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">My Homes</h1>
+        <p className="text-muted-foreground">
+          Each home is revalued whenever the valuation model is updated with newer sales. We'll notify you when its value moves past your alert threshold.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(2)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6 space-y-2">
+                <div className="h-5 bg-muted rounded w-1/3"></div>
+                <div className="h-40 bg-muted rounded"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : homes.length === 0 ? (
+        <div className="text-center py-12 space-y-4">
+          <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto">
+            <Home className="h-12 w-12 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">No homes tracked yet</h3>
+            <p className="text-muted-foreground">
+              Estimate your home's value, including its address, and choose "Track this home".
+            </p>
+          </div>
+          <Button asChild>
+            <Link to="/price-prediction">
+              <Calculator className="mr-2 h-4 w-4" />
+              Estimate a home
+            </Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {homes.map((home) => (
+            <Card key={home.id} className="border-border/50 shadow-card">
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold truncate">{home.name}</h3>
+                      {home.paused && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    <div className="text-2xl font-bold text-primary">
+                      {home.latest_price !== null ? formatPrice(Number(home.latest_price)) : 'Not valued yet'}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {renderChange(valueChangePercent(home.home_valuations))}
+                      {home.last_valued_at && (
+                        <> · updated {formatDistanceToNow(new Date(home.last_valued_at), { addSuffix: true })}</>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => refreshValue(home)}
+                      disabled={refreshing === home.id}
+                      aria-label="Update value now"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${refreshing === home.id ? 'animate-spin' : ''}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive"
+                      onClick={() => setDeleting(home)}
+                      aria-label="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <HomeValueChart valuations={home.home_valuations} />
+
+                <div className="flex flex-wrap items-center gap-6">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`tracking-${home.id}`}
+                      checked={!home.paused}
+                      onCheckedChange={(checked) => updateHome(home.id, { paused: !checked })}
+                    />
+                    <label htmlFor={`tracking-${home.id}`} className="text-sm">Value updates</label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Alert when the value moves</span>
+                    <Select
+                      value={String(home.alert_threshold_percent)}
+                      onValueChange={(value) => updateHome(home.id, { alert_threshold_percent: Number(value) })}
+                      disabled={home.paused}
+                    >
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALERT_THRESHOLD_OPTIONS.map((percent) => (
+                          <SelectItem key={percent} value={String(percent)}>{percent}%</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Stop tracking "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its value history will be deleted and you'll stop receiving alerts. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteHome}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default HomeValues;
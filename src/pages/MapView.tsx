@@ -0,0 +1,401 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import maplibregl from "maplibre-gl";
+import "maplibre-gl/dist/maplibre-gl.css";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Search, Filter, MapPin, Bed, Bath, Maximize, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { PropertyFiltersPanel } from "@/components/properties/PropertyFiltersPanel";
+import { buildPropertiesQuery, defaultPropertyFilters, PropertyFilters } from "@/lib/propertyFilters";
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, getMapStyle } from "@/lib/mapConfig";
+import { cn } from "@/lib/utils";
+
+type Property = Database['public']['Tables']['properties']['Row'];
+
+interface ViewportBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const SOURCE_ID = 'properties';
+const MAX_RESULTS = 500;
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatCompactPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(price);
+};
+
+const toFeatureCollection = (properties: Property[]): GeoJSON.FeatureCollection<GeoJSON.Point> => ({
+  type: 'FeatureCollection',
+  features: properties
+    .filter((property) => property.latitude !== null && property.longitude !== null)
+    .map((property) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [Number(property.longitude), Number(property.latitude)],
+      },
+      properties: {
+        id: property.id,
+        price: property.price,
+      },
+    })),
+});
+
+const MapView = () => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<maplibregl.Map | null>(null);
+  const markers = useRef<Map<string, maplibregl.Marker>>(new Map());
+  const listItems = useRef<Map<string, HTMLDivElement>>(new Map());
+  const selectedIdRef = useRef<string | null>(null);
+
+  const [mapReady, setMapReady] = useState(false);
+  const [bounds, setBounds] = useState<ViewportBounds | null>(null);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
+  const [appliedSearch, setAppliedSearch] = useState(searchParams.get('search') || '');
+  const [filters, setFilters] = useState<PropertyFilters>(defaultPropertyFilters);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const readBounds = (instance: maplibregl.Map): ViewportBounds => {
+    const current = instance.getBounds();
+    return {
+      north: current.getNorth(),
+      south: current.getSouth(),
+      east: current.getEast(),
+      west: current.getWest(),
+    };
+  };
+
+  const selectProperty = useCallback((propertyId: string) => {
+    selectedIdRef.current = propertyId;
+    setSelectedId(propertyId);
+  }, []);
+
+  // Clusters and price pins are HTML markers so the map needs no glyph or sprite
+  // server, which keeps it working against the offline style.
+  const syncMarkers = useCallback(() => {
+    const instance = map.current;
+    if (!instance || !instance.getSource(SOURCE_ID) || !instance.isSourceLoaded(SOURCE_ID)) return;
+
+    const visible = new Set<string>();
+    const features = instance.querySourceFeatures(SOURCE_ID);
+
+    for (const feature of features) {
+      const [lng, lat] = (feature.geometry as GeoJSON.Point).coordinates;
+      const props = feature.properties || {};
+      const key = props.cluster ? `cluster-${props.cluster_id}` : String(props.id);
+
+      if (visible.has(key)) continue;
+      visible.add(key);
+
+      if (markers.current.has(key)) continue;
+
+      const element = document.createElement('button');
+      element.type = 'button';
+
+      if (props.cluster) {
+        const size = Math.min(56, 28 + Math.log2(props.point_count) * 6);
+        element.className = 'flex items-center justify-center rounded-full bg-primary text-primary-foreground text-xs font-semibold shadow-card border-2 border-background';
+        element.style.width = `${size}px`;
+        element.style.height = `${size}px`;
+        element.textContent = String(props.point_count_abbreviated ?? props.point_count);
+        element.addEventListener('click', () => {
+          const source = instance.getSource(SOURCE_ID) as maplibregl.GeoJSONSource;
+          source.getClusterExpansionZoom(props.cluster_id)
+            .then((zoom) => instance.easeTo({ center: [lng, lat], zoom }))
+            .catch((error) => console.error('Map error:', error));
+        });
+      } else {
+        element.className = cn(
+          'rounded-full px-2 py-1 text-xs font-semibold shadow-card border border-border transition-colors',
+          selectedIdRef.current === props.id ? 'bg-primary text-primary-foreground' : 'bg-background text-foreground'
+        );
+        element.dataset.propertyId = String(props.id);
+        element.textContent = formatCompactPrice(Number(props.price));
+        element.addEventListener('click', () => selectProperty(String(props.id)));
+      }
+
+      const marker = new maplibregl.Marker({ element }).setLngLat([lng, lat]).addTo(instance);
+      markers.current.set(key, marker);
+    }
+
+    markers.current.forEach((marker, key) => {
+      if (!visible.has(key)) {
+        marker.remove();
+        markers.current.delete(key);
+      }
+    });
+  }, [selectProperty]);
+
+  // Initialise the map once
+  useEffect(() => {
+    if (!mapContainer.current || map.current) return;
+
+    const instance = new maplibregl.Map({
+      container: mapContainer.current,
+      style: getMapStyle(),
+      center: DEFAULT_MAP_CENTER,
+      zoom: DEFAULT_MAP_ZOOM,
+    });
+    map.current = instance;
+
+    instance.addControl(new maplibregl.NavigationControl(), 'top-right');
+
+    instance.on('load', () => {
+      instance.addSource(SOURCE_ID, {
+        type: 'geojson',
+        data: toFeatureCollection([]),
+        cluster: true,
+        clusterMaxZoom: 14,
+        clusterRadius: 50,
+      });
+
+      // Invisible layer so the source gets tiled and can be queried for markers
+      instance.addLayer({
+        id: 'properties-points',
+        type: 'circle',
+        source: SOURCE_ID,
+        paint: { 'circle-radius': 0, 'circle-opacity': 0 },
+      });
+
+      setBounds(readBounds(instance));
+      setMapReady(true);
+    });
+
+    instance.on('moveend', () => setBounds(readBounds(instance)));
+    instance.on('render', syncMarkers);
+    instance.on('error', (event) => console.error('Map error:', event.error));
+
+    const currentMarkers = markers.current;
+    return () => {
+      currentMarkers.forEach((marker) => marker.remove());
+      currentMarkers.clear();
+      instance.remove();
+      map.current = null;
+    };
+  }, [syncMarkers]);
+
+  // Re-query the listings inside the viewport whenever it or the filters change
+  useEffect(() => {
+    if (!bounds) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await buildPropertiesQuery(filters, appliedSearch)
+          .gte('latitude', bounds.south)
+          .lte('latitude', bounds.north)
+          .gte('longitude', bounds.west)
+          .lte('longitude', bounds.east)
+          .order('price', { ascending: true })
+          .limit(MAX_RESULTS);
+
+        if (cancelled) return;
+
+        if (error) {
+          console.error('Error fetching properties:', error);
+          toast({
+            title: "Error loading properties",
+            description: "Please try again later.",
+            variant: "destructive",
+          });
+        } else {
+          setProperties(data || []);
+        }
+      } catch (error) {
+        console.error('Error:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [bounds, filters, appliedSearch, toast]);
+
+  // Push results into the clustered source
+  useEffect(() => {
+    if (!mapReady || !map.current) return;
+    const source = map.current.getSource(SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+    source?.setData(toFeatureCollection(properties));
+  }, [properties, mapReady]);
+
+  // Keep pin highlight in sync with the list
+  useEffect(() => {
+    markers.current.forEach((marker) => {
+      const element = marker.getElement();
+      const id = element.dataset.propertyId;
+      if (!id) return;
+      const active = id === selectedId || id === hoveredId;
+      element.classList.toggle('bg-primary', active);
+      element.classList.toggle('text-primary-foreground', active);
+      element.classList.toggle('bg-background', !active);
+      element.classList.toggle('text-foreground', !active);
+      element.style.zIndex = active ? '1' : '';
+    });
+  }, [selectedId, hoveredId, properties]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    listItems.current.get(selectedId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [selectedId]);
+
+  const focusProperty = (property: Property) => {
+    selectProperty(property.id);
+    if (map.current && property.latitude !== null && property.longitude !== null) {
+      map.current.flyTo({
+        center: [Number(property.longitude), Number(property.latitude)],
+        zoom: Math.max(map.current.getZoom(), 13),
+      });
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedSearch(searchQuery);
+    setSearchParams(searchQuery ? { search: searchQuery } : {});
+  };
+
+  const clearFilters = () => {
+    setFilters(defaultPropertyFilters);
+    setSearchQuery('');
+    setAppliedSearch('');
+    setSearchParams({});
+  };
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-4rem)]">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 border-b px-4 py-3">
+        <form onSubmit={handleSearch} className="flex-1 max-w-lg">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search properties..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </form>
+
+        <Sheet>
+          <SheetTrigger asChild>
+            <Button variant="outline">
+              <Filter className="mr-2 h-4 w-4" />
+              Filters
+            </Button>
+          </SheetTrigger>
+          <SheetContent side="left" className="overflow-y-auto">
+            <SheetHeader>
+              <SheetTitle>Filter properties</SheetTitle>
+            </SheetHeader>
+            <PropertyFiltersPanel
+              filters={filters}
+              onFiltersChange={setFilters}
+              onClear={clearFilters}
+              className="mt-4 border-0 p-0 shadow-none"
+            />
+          </SheetContent>
+        </Sheet>
+
+        <div className="ml-auto flex items-center text-sm text-muted-foreground">
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {properties.length >= MAX_RESULTS
+            ? `Showing first ${MAX_RESULTS} properties - zoom in to see more`
+            : `${properties.length} properties in view`}
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Synced list */}
+        <ScrollArea className="hidden md:block w-96 border-r">
+          <div className="p-4 space-y-3">
+            {properties.length === 0 && !loading ? (
+              <div className="text-center py-12 space-y-2">
+                <MapPin className="h-8 w-8 mx-auto text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  No properties in this area. Try zooming out or adjusting the filters.
+                </p>
+              </div>
+            ) : (
+              properties.map((property) => (
+                <div
+                  key={property.id}
+                  ref={(element) => {
+                    if (element) listItems.current.set(property.id, element);
+                    else listItems.current.delete(property.id);
+                  }}
+                  onMouseEnter={() => setHoveredId(property.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                  onClick={() => focusProperty(property)}
+                  className={cn(
+                    "flex gap-3 rounded-lg border p-2 cursor-pointer transition-colors hover:bg-muted/50",
+                    selectedId === property.id && "border-primary bg-primary/5"
+                  )}
+                >
+                  <img
+                    src={Array.isArray(property.images) && property.images.length > 0 ? String(property.images[0]) : '/placeholder.svg'}
+                    alt={property.title}
+                    className="h-20 w-24 rounded-md object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="font-semibold text-primary">{formatPrice(property.price)}</div>
+                    <Link
+                      to={`/property/${property.id}`}
+                      className="block text-sm font-medium truncate hover:underline"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      {property.title}
+                    </Link>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center"><Bed className="h-3 w-3 mr-1" />{property.bedrooms}</span>
+                      <span className="flex items-center"><Bath className="h-3 w-3 mr-1" />{property.bathrooms}</span>
+                      <span className="flex items-center"><Maximize className="h-3 w-3 mr-1" />{property.area_sqft} sqft</span>
+                    </div>
+                    <Badge variant="outline" className="text-xs capitalize">{property.property_type}</Badge>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+
+        {/* Map */}
+        <div ref={mapContainer} className="flex-1" />
+      </div>
+    </div>
+  );
+};
+
+export default MapView;
@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Bell, CheckCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useNotifications, Notification, notificationLink } from "@/hooks/useNotifications";
+import { NotificationItem } from "@/components/notifications/NotificationItem";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+const Notifications = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The live feed tells us when something new arrives so the current page can refresh
+  const { notifications: latest, unreadCount, markAllAsRead } = useNotifications(1);
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+  const [items, setItems] = useState<Notification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const fetchPage = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await supabase
+        .from('notifications')
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching notifications:', error);
+        toast({
+          title: "Error loading notifications",
+          description: "Please try again later.",
+          variant: "destructive",
+        });
+      } else {
+        setItems(data || []);
+        setTotal(count ?? 0);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [user, page, toast]);
+
+  const latestId = latest[0]?.id;
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage, latestId]);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams(nextPage > 1 ? { page: String(nextPage) } : {});
+    window.scrollTo({ top: 0 });
+  };
+
+  const openNotification = async (notification: Notification) => {
+    if (!notification.read) {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read: true })
+        .eq('id', notification.id);
+
+      if (!error) {
+        setItems((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read: true } : n)));
+      }
+    }
+
+    const link = notificationLink(notification);
+    if (link) {
+      navigate(link);
+    }
+  };
+
+  const handleMarkAll = async () => {
+    const { error } = await markAllAsRead();
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update notifications. Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      setItems((prev) => prev.map((n) => ({ ...n, read: true })));
+    }
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <Bell className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">Notifications</h1>
+        <p className="text-muted-foreground">Sign in to see your notifications.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Notifications</h1>
+          <p className="text-muted-foreground">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'No unread notifications'}
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleMarkAll} disabled={unreadCount === 0}>
+          <CheckCheck className="mr-2 h-4 w-4" />
+          Mark all as read
+        </Button>
+      </div>
+
+      <Card className="divide-y border-border/50">
+        {loading ? (
+          [...Array(5)].map((_, i) => (
+            <div key={i} className="p-4 animate-pulse space-y-2">
+              <div className="h-4 bg-muted rounded w-1/2"></div>
+              <div className="h-3 bg-muted rounded w-3/4"></div>
+            </div>
+          ))
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 space-y-2">
+            <Bell className="h-8 w-8 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">You don't have any notifications yet.</p>
+          </div>
+        ) : (
+          items.map((notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={() => openNotification(notification)}
+              className={cn(
+                "w-full p-4 text-left transition-colors hover:bg-muted/50",
+                !notification.read && "bg-primary/5"
+              )}
+            >
+              <NotificationItem notification={notification} />
+            </button>
+          ))
+        )}
+      </Card>
+
+      {totalPages > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={page === 1}
+                className={cn(page === 1 && "pointer-events-none opacity-50")}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToPage(page - 1);
+                }}
+              />
+            </PaginationItem>
+            {Array.from({ length: totalPages }, (_, i) => i + 1)
+              .filter((p) => p === 1 || p === totalPages || Math.abs(p - page) <= 1)
+              .map((p) => (
+                <PaginationItem key={p}>
+                  <PaginationLink
+                    href="#"
+                    isActive={p === page}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      goToPage(p);
+                    }}
+                  >
+                    {p}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={page === totalPages}
+                className={cn(page === totalPages && "pointer-events-none opacity-50")}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToPage(page + 1);
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default Notifications;
@@ -1,4 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Calculator, 
   TrendingUp, 
@@ -14,67 +17,162 @@ import {
   Loader2,
   DollarSign,
   BarChart3,
-  Info
+  Info,
+  RefreshCw,
+  History,
+  FileDown,
+  FileSpreadsheet,
+  LineChart
 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { WhatIfScenarios } from "@/components/prediction/WhatIfScenarios";
+import { RentEstimateResults } from "@/components/prediction/RentEstimateResults";
+import { PriceWaterfall } from "@/components/prediction/PriceWaterfall";
+import {
+  AMENITIES,
+  PredictionQuota,
+  PredictionResult,
+  predictionResultSchema,
+  RentPredictionResult,
+  rentPredictionResultSchema,
+  RentRequest,
+  RentRequestErrors,
+  rentRequestSchema,
+  ValuationRequest,
+  valuationRequestSchema,
+} from "@/lib/predictionSchema";
+import { DealScoreBadge } from "@/components/properties/DealScoreBadge";
+import {
+  emptyValuationForm,
+  ValuationFormData,
+  valuationFormFromInput,
+  valuationFormFromListing,
+} from "@/lib/valuationHistory";
+import { createValuationReport, valuationReportFileName } from "@/lib/valuationReport";
+import { trackedHomeName } from "@/lib/trackedHomes";
 
-interface PredictionResult {
-  estimatedPrice: number;
-  priceRange: {
-    min: number;
-    max: number;
-  };
-  confidence: number;
-  factors: {
-    location: number;
-    size: number;
-    bedrooms: number;
-    bathrooms: number;
-    amenities: number;
-    market: number;
-  };
-  comparableProperties: Array<{
-    price: number;
-    distance: string;
-    similarity: number;
-  }>;
-}
+type EstimateMode = 'sale' | 'rent';
+
+type Listing = Database['public']['Tables']['properties']['Row'];
+
+const LEASE_TERMS = [
+  { value: '1', label: 'Month-to-month' },
+  { value: '6', label: '6 months' },
+  { value: '12', label: '12 months' },
+  { value: '24', label: '24 months' },
+];
+
+const BEDROOM_OPTIONS = [
+  { value: '0', label: 'Studio' },
+  { value: '1', label: '1 Bedroom' },
+  { value: '2', label: '2 Bedrooms' },
+  { value: '3', label: '3 Bedrooms' },
+  { value: '4', label: '4 Bedrooms' },
+  { value: '5', label: '5+ Bedrooms' },
+];
+
+const BATHROOM_OPTIONS = [
+  { value: '1', label: '1 Bathroom' },
+  { value: '1.5', label: '1.5 Bathrooms' },
+  { value: '2', label: '2 Bathrooms' },
+  { value: '2.5', label: '2.5 Bathrooms' },
+  { value: '3', label: '3 Bathrooms' },
+  { value: '4', label: '4+ Bathrooms' },
+];
+
+// Listings and saved estimates can hold counts the menu doesn't offer; list them too so the select isn't blank
+const withCurrentOption = (options: { value: string; label: string }[], current: string, unit: string) =>
+  current === '' || options.some((option) => option.value === current)
+    ? options
+    : [...options, { value: current, label: `${current} ${unit}` }];
 
 const PricePrediction = () => {
+  const { user } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
+  // Inputs behind the estimate on screen; the form may have been edited since
+  const [predictedInput, setPredictedInput] = useState<ValuationRequest | null>(null);
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const [trackingHome, setTrackingHome] = useState(false);
+  const [mode, setMode] = useState<EstimateMode>('sale');
+  const [rentPrediction, setRentPrediction] = useState<RentPredictionResult | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<RentRequestErrors>({});
+  const [quota, setQuota] = useState<PredictionQuota | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  // History entry for the estimate on screen, so refreshing it is recorded as a re-run
+  const [valuationId, setValuationId] = useState<string | null>(null);
+  // Listing the form was filled from, so its asking price can be shown next to the estimate
+  const [listing, setListing] = useState<Pick<Listing, 'id' | 'title' | 'price'> | null>(null);
+  const [searchParams] = useSearchParams();
+
+  // Signing in raises the daily limit, so refresh whenever the user changes
+  useEffect(() => {
+    const fetchQuota = async () => {
+      const { data, error } = await supabase.functions.invoke('predict-price', { method: 'GET' });
+      if (error) {
+        console.error('Error fetching estimate quota:', error);
+      } else {
+        setQuota(data.quota);
+      }
+    };
+
+    fetchQuota();
+  }, [user?.id]);
   
-  const [formData, setFormData] = useState({
-    propertyType: '',
-    bedrooms: '',
-    bathrooms: '',
-    area: '',
-    address: '',
-    city: '',
-    state: '',
-    zipcode: '',
-    yearBuilt: '',
-    parkingSpaces: '',
-    furnished: false,
-    petFriendly: false,
-    amenities: [] as string[],
-  });
+  const [formData, setFormData] = useState<ValuationFormData>(emptyValuationForm);
 
-  const amenitiesList = [
-    'Swimming Pool', 'Gym', 'Parking', 'Security', 'Elevator', 'Balcony',
-    'Garden', 'Garage', 'Fireplace', 'Walk-in Closet', 'Laundry',
-    'Air Conditioning', 'Heating', 'Hardwood Floors', 'Updated Kitchen'
-  ];
+  // `?propertyId=` fills the form from a listing; the estimate is still requested by the user
+  const listingId = searchParams.get('propertyId');
+  useEffect(() => {
+    if (!listingId) return;
 
-  const handleInputChange = (field: string, value: string | boolean) => {
+    const openListing = async () => {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('*')
+        .eq('id', listingId)
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error('Error loading listing:', error);
+        toast({
+          title: "Listing not found",
+          description: "It may have been removed.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setMode('sale');
+      setFormData(valuationFormFromListing(data));
+      setFieldErrors({});
+      setPrediction(null);
+      setPredictedInput(null);
+      setCachedAt(null);
+      setValuationId(null);
+      setListing({ id: data.id, title: data.title, price: data.price });
+    };
+
+    openListing();
+  }, [listingId, toast]);
+
+  const handleInputChange = (field: keyof RentRequest, value: string | boolean) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
+    setFieldErrors(prev => ({ ...prev, [field]: undefined }));
+    setValuationId(null);
   };
 
+  const fieldError = (field: keyof RentRequest) =>
+    fieldErrors[field]?.[0] && <p className="text-sm text-destructive">{fieldErrors[field]?.[0]}</p>;
+
   const handleAmenityChange = (amenity: string, checked: boolean) => {
     setFormData(prev => ({
       ...prev,
@@ -82,35 +180,86 @@ const PricePrediction = () => {
         ? [...prev.amenities, amenity]
         : prev.amenities.filter(a => a !== amenity)
     }));
+    setValuationId(null);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Validation
-    if (!formData.propertyType || !formData.bedrooms || !formData.bathrooms || 
-        !formData.area || !formData.city || !formData.state) {
+    if (mode === 'rent') {
+      requestRentEstimate();
+    } else {
+      requestPrediction(false);
+    }
+  };
+
+  // Shows field errors and rate limits from the function; returns false for any other error
+  const handleEstimateError = async (error: unknown) => {
+    if (error instanceof FunctionsHttpError && error.context.status === 400) {
+      const body = await error.context.json().catch(() => ({}));
+      setFieldErrors(body.fieldErrors ?? {});
+      toast({
+        title: "Invalid property details",
+        description: "Please fix the highlighted fields.",
+        variant: "destructive",
+      });
+      return true;
+    }
+
+    if (error instanceof FunctionsHttpError && error.context.status === 429) {
+      const body = await error.context.json().catch(() => ({}));
+      if (body.quota) setQuota(body.quota);
+      const retryAfter = Number(error.context.headers.get('Retry-After') ?? body.retryAfter ?? 60);
+      toast({
+        title: body.quota?.remaining === 0 ? "Daily limit reached" : "Too many requests",
+        description: `You can get another estimate in ${formatDistanceToNow(new Date(Date.now() + retryAfter * 1000))}.`,
+        variant: "destructive",
+      });
+      return true;
+    }
+
+    return false;
+  };
+
+  // `refresh` skips the server-side cache and always computes a new estimate;
+  // `rerunOf` links the new estimate to the history entry it repeats
+  const requestPrediction = async (refresh: boolean, input = formData, rerunOf = valuationId) => {
+    // Validation (the function re-validates with the same schema)
+    const parsed = valuationRequestSchema.safeParse(input);
+    if (!parsed.success) {
+      setFieldErrors(parsed.error.flatten().fieldErrors);
       toast({
         title: "Missing information",
-        description: "Please fill in all required fields.",
+        description: "Please fix the highlighted fields.",
         variant: "destructive",
       });
       return;
     }
 
+    setFieldErrors({});
     setLoading(true);
     
     try {
       // Call our edge function for price prediction
       const { data, error } = await supabase.functions.invoke('predict-price', {
-        body: formData
+        body: { ...parsed.data, refresh, rerunOf }
       });
 
       if (error) {
+        if (await handleEstimateError(error)) return;
         throw error;
       }
 
-      setPrediction(data.prediction);
+      if (data.quota) setQuota(data.quota);
+
+      const result = predictionResultSchema.safeParse(data?.prediction);
+      if (!result.success) {
+        throw new Error(`Invalid prediction response: ${result.error.message}`);
+      }
+
+      setPrediction(result.data);
+      setPredictedInput(parsed.data);
+      setCachedAt(data.cached ? data.cachedAt : null);
+      setValuationId(data.valuationId ?? null);
       
       toast({
         title: "Price prediction generated!",
@@ -128,6 +277,173 @@ const PricePrediction = () => {
     }
   };
 
+  // Effects start estimates through this ref, so they see the latest state without
+  // re-running whenever requestPrediction is recreated
+  const requestPredictionRef = useRef(requestPrediction);
+  useEffect(() => {
+    requestPredictionRef.current = requestPrediction;
+  });
+
+  // Opening an estimate from the history restores it; `rerun=1` also asks for a fresh one
+  const openValuationId = searchParams.get('valuation');
+  const userId = user?.id;
+  const rerunRequested = searchParams.get('rerun') === '1';
+  useEffect(() => {
+    if (!openValuationId || !userId) return;
+
+    const openValuation = async () => {
+      const { data, error } = await supabase
+        .from('price_predictions')
+        .select('*')
+        .eq('id', openValuationId)
+        .maybeSingle();
+
+      const stored = predictionResultSchema.safeParse(data?.prediction);
+      const storedInput = valuationRequestSchema.safeParse(data?.input);
+      if (error || !data || !stored.success || !storedInput.success) {
+        console.error('Error loading saved estimate:', error);
+        toast({
+          title: "Saved estimate not found",
+          description: "It may have been deleted.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const form = valuationFormFromInput(data.input);
+      setMode('sale');
+      setFormData(form);
+      setFieldErrors({});
+      setPrediction(stored.data);
+      setPredictedInput(storedInput.data);
+      setCachedAt(data.created_at);
+      setValuationId(data.id);
+      setListing(null);
+
+      if (rerunRequested) {
+        requestPredictionRef.current(true, form, data.id);
+      }
+    };
+
+    openValuation();
+  }, [openValuationId, rerunRequested, userId, toast]);
+
+  const requestRentEstimate = async () => {
+    const parsed = rentRequestSchema.safeParse(formData);
+    if (!parsed.success) {
+      setFieldErrors(parsed.error.flatten().fieldErrors);
+      toast({
+        title: "Missing information",
+        description: "Please fix the highlighted fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFieldErrors({});
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('predict-price', {
+        body: { ...parsed.data, mode: 'rent' }
+      });
+
+      if (error) {
+        if (await handleEstimateError(error)) return;
+        throw error;
+      }
+
+      if (data.quota) setQuota(data.quota);
+
+      const result = rentPredictionResultSchema.safeParse(data?.prediction);
+      if (!result.success) {
+        throw new Error(`Invalid rent estimate response: ${result.error.message}`);
+      }
+
+      setRentPrediction(result.data);
+
+      toast({
+        title: "Rent estimate generated!",
+        description: "Your rental valuation is ready.",
+      });
+    } catch (error) {
+      console.error('Error:', error);
+      toast({
+        title: "Rent estimate failed",
+        description: "Unable to estimate the rent. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadReport = async () => {
+    if (!prediction || !predictedInput) return;
+
+    setGeneratingReport(true);
+    try {
+      const report = await createValuationReport(prediction, predictedInput);
+      report.save(valuationReportFileName(predictedInput));
+    } catch (error) {
+      console.error('Error generating valuation report:', error);
+      toast({
+        title: "Report failed",
+        description: "Unable to generate the PDF report. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setGeneratingReport(false);
+    }
+  };
+
+  // Tracking starts with a fresh valuation from the home-values function; if that fails
+  // the weekly job picks the home up, so the home stays tracked either way
+  const trackHome = async () => {
+    if (!user || !predictedInput) return;
+
+    if (!predictedInput.address) {
+      toast({
+        title: "Address needed",
+        description: "Add the home's street address and get an estimate before tracking it.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTrackingHome(true);
+    try {
+      const { data, error } = await supabase
+        .from('tracked_homes')
+        .insert({
+          user_id: user.id,
+          name: trackedHomeName(predictedInput),
+          input: { ...predictedInput },
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: valueError } = await supabase.functions.invoke('home-values', { body: { homeId: data.id } });
+      if (valueError) console.error('Error valuing tracked home:', valueError);
+
+      toast({
+        title: "Home tracked",
+        description: "We'll revalue it whenever the model is updated and let you know when its value moves. Find it under My Homes.",
+      });
+    } catch (error) {
+      console.error('Error tracking home:', error);
+      toast({
+        title: "Couldn't track home",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setTrackingHome(false);
+    }
+  };
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -138,22 +454,14 @@ const PricePrediction = () => {
   };
 
   const resetForm = () => {
-    setFormData({
-      propertyType: '',
-      bedrooms: '',
-      bathrooms: '',
-      area: '',
-      address: '',
-      city: '',
-      state: '',
-      zipcode: '',
-      yearBuilt: '',
-      parkingSpaces: '',
-      furnished: false,
-      petFriendly: false,
-      amenities: [],
-    });
+    setFormData(emptyValuationForm);
+    setFieldErrors({});
     setPrediction(null);
+    setRentPrediction(null);
+    setPredictedInput(null);
+    setCachedAt(null);
+    setValuationId(null);
+    setListing(null);
   };
 
   return (
@@ -164,11 +472,27 @@ const PricePrediction = () => {
           <Calculator className="h-8 w-8 text-primary" />
         </div>
         <h1 className="text-3xl md:text-4xl font-bold text-foreground">
-          AI Price Prediction
+          Price Estimate
         </h1>
         <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-          Get accurate property valuations using advanced AI algorithms and comprehensive market data analysis
+          A statistical model fitted to recorded sale and listing prices estimates the value, with a range showing how sure it is
         </p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/price-prediction/batch">
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Batch valuation
+            </Link>
+          </Button>
+          {user && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/valuations">
+                <History className="mr-2 h-4 w-4" />
+                Valuation history
+              </Link>
+            </Button>
+          )}
+        </div>
       </div>
 
       <div className="grid lg:grid-cols-2 gap-8">
@@ -182,6 +506,12 @@ const PricePrediction = () => {
             <CardDescription>
               Enter your property information for an accurate price estimation
             </CardDescription>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as EstimateMode)} className="pt-2">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="sale">Sale price</TabsTrigger>
+                <TabsTrigger value="rent">Monthly rent</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
@@ -203,6 +533,7 @@ const PricePrediction = () => {
                     <SelectItem value="studio">Studio</SelectItem>
                   </SelectContent>
                 </Select>
+                {fieldError('propertyType')}
               </div>
 
               {/* Basic Info Grid */}
@@ -217,14 +548,12 @@ const PricePrediction = () => {
                       <SelectValue placeholder="Bedrooms" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="0">Studio</SelectItem>
-                      <SelectItem value="1">1 Bedroom</SelectItem>
-                      <SelectItem value="2">2 Bedrooms</SelectItem>
-                      <SelectItem value="3">3 Bedrooms</SelectItem>
-                      <SelectItem value="4">4 Bedrooms</SelectItem>
-                      <SelectItem value="5">5+ Bedrooms</SelectItem>
+                      {withCurrentOption(BEDROOM_OPTIONS, formData.bedrooms, 'Bedrooms').map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {fieldError('bedrooms')}
                 </div>
                 
                 <div className="space-y-2">
@@ -237,14 +566,12 @@ const PricePrediction = () => {
                       <SelectValue placeholder="Bathrooms" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="1">1 Bathroom</SelectItem>
-                      <SelectItem value="1.5">1.5 Bathrooms</SelectItem>
-                      <SelectItem value="2">2 Bathrooms</SelectItem>
-                      <SelectItem value="2.5">2.5 Bathrooms</SelectItem>
-                      <SelectItem value="3">3 Bathrooms</SelectItem>
-                      <SelectItem value="4">4+ Bathrooms</SelectItem>
+                      {withCurrentOption(BATHROOM_OPTIONS, formData.bathrooms, 'Bathrooms').map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  {fieldError('bathrooms')}
                 </div>
               </div>
 
@@ -258,6 +585,7 @@ const PricePrediction = () => {
                   value={formData.area}
                   onChange={(e) => handleInputChange('area', e.target.value)}
                 />
+                {fieldError('area')}
               </div>
 
               {/* Location */}
@@ -271,6 +599,7 @@ const PricePrediction = () => {
                     value={formData.address}
                     onChange={(e) => handleInputChange('address', e.target.value)}
                   />
+                  {fieldError('address')}
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4">
@@ -283,6 +612,7 @@ const PricePrediction = () => {
                       value={formData.city}
                       onChange={(e) => handleInputChange('city', e.target.value)}
                     />
+                    {fieldError('city')}
                   </div>
                   
                   <div className="space-y-2">
@@ -294,6 +624,7 @@ const PricePrediction = () => {
                       value={formData.state}
                       onChange={(e) => handleInputChange('state', e.target.value)}
                     />
+                    {fieldError('state')}
                   </div>
                 </div>
 
@@ -307,6 +638,7 @@ const PricePrediction = () => {
                       value={formData.zipcode}
                       onChange={(e) => handleInputChange('zipcode', e.target.value)}
                     />
+                    {fieldError('zipcode')}
                   </div>
                   
                   <div className="space-y-2">
@@ -318,6 +650,7 @@ const PricePrediction = () => {
                       value={formData.yearBuilt}
                       onChange={(e) => handleInputChange('yearBuilt', e.target.value)}
                     />
+                    {fieldError('yearBuilt')}
                   </div>
                 </div>
               </div>
@@ -339,8 +672,41 @@ const PricePrediction = () => {
                     <SelectItem value="3">3+ Spaces</SelectItem>
                   </SelectContent>
                 </Select>
+                {fieldError('parkingSpaces')}
               </div>
 
+              {/* Lease Terms */}
+              {mode === 'rent' && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="leaseTermMonths">Lease Term *</Label>
+                    <Select
+                      value={formData.leaseTermMonths}
+                      onValueChange={(value) => handleInputChange('leaseTermMonths', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Lease term" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEASE_TERMS.map((term) => (
+                          <SelectItem key={term.value} value={term.value}>{term.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {fieldError('leaseTermMonths')}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="utilitiesIncluded"
+                      checked={formData.utilitiesIncluded}
+                      onCheckedChange={(checked) => handleInputChange('utilitiesIncluded', !!checked)}
+                    />
+                    <Label htmlFor="utilitiesIncluded">Utilities included in rent</Label>
+                  </div>
+                </div>
+              )}
+
               {/* Checkboxes */}
               <div className="space-y-4">
                 <div className="flex items-center space-x-2">
@@ -366,7 +732,7 @@ const PricePrediction = () => {
               <div className="space-y-3">
                 <Label>Amenities</Label>
                 <div className="grid grid-cols-2 gap-2">
-                  {amenitiesList.map((amenity) => (
+                  {AMENITIES.map((amenity) => (
                     <div key={amenity} className="flex items-center space-x-2">
                       <Checkbox
                         id={amenity}
@@ -381,7 +747,7 @@ const PricePrediction = () => {
 
               {/* Submit Buttons */}
               <div className="flex gap-4">
-                <Button type="submit" className="flex-1" disabled={loading}>
+                <Button type="submit" className="flex-1" disabled={loading || quota?.remaining === 0}>
                   {loading ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -390,7 +756,7 @@ const PricePrediction = () => {
                   ) : (
                     <>
                       <TrendingUp className="mr-2 h-4 w-4" />
-                      Get Price Prediction
+                      {mode === 'rent' ? 'Get Rent Estimate' : 'Get Price Prediction'}
                     </>
                   )}
                 </Button>
@@ -399,13 +765,27 @@ const PricePrediction = () => {
                   Reset
                 </Button>
               </div>
+
+              {quota && (
+                <p className="text-sm text-muted-foreground text-center">
+                  {quota.remaining} of {quota.dailyLimit} estimates left today
+                  {!quota.signedIn && (
+                    <>
+                      {' · '}
+                      <Link to="/auth" className="text-primary hover:underline">Sign in</Link> for more
+                    </>
+                  )}
+                </p>
+              )}
             </form>
           </CardContent>
         </Card>
 
         {/* Results */}
         <div className="space-y-6">
-          {prediction ? (
+          {mode === 'rent' && rentPrediction ? (
+            <RentEstimateResults prediction={rentPrediction} />
+          ) : mode === 'sale' && prediction ? (
             <>
               {/* Main Prediction */}
               <Card className="border-border/50 shadow-card">
@@ -421,47 +801,115 @@ const PricePrediction = () => {
                       {formatPrice(prediction.estimatedPrice)}
                     </div>
                     <div className="text-muted-foreground">
-                      Range: {formatPrice(prediction.priceRange.min)} - {formatPrice(prediction.priceRange.max)}
+                      {prediction.intervalLevel}% range: {formatPrice(prediction.priceRange.min)} - {formatPrice(prediction.priceRange.max)}
                     </div>
                     <Badge variant="secondary">
                       {prediction.confidence}% Confidence
                     </Badge>
                   </div>
+                  {listing && (
+                    <div className="flex items-center justify-between gap-4 rounded-lg bg-muted/50 p-3">
+                      <div className="min-w-0">
+                        <div className="text-xs text-muted-foreground">Asking price</div>
+                        <div className="text-xl font-semibold">{formatPrice(listing.price)}</div>
+                        <Link to={`/property/${listing.id}`} className="block truncate text-xs text-primary hover:underline">
+                          {listing.title}
+                        </Link>
+                      </div>
+                      <DealScoreBadge
+                        dealScore={((listing.price - prediction.estimatedPrice) / prediction.estimatedPrice) * 100}
+                        estimatedPrice={prediction.estimatedPrice}
+                        className="shrink-0"
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                    {cachedAt && (
+                      <span>Saved estimate from {formatDistanceToNow(new Date(cachedAt), { addSuffix: true })}</span>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7"
+                      onClick={() => requestPrediction(true)}
+                      disabled={loading || quota?.remaining === 0}
+                    >
+                      <RefreshCw className={`mr-1 h-3 w-3 ${loading ? 'animate-spin' : ''}`} />
+                      Refresh estimate
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7"
+                      onClick={downloadReport}
+                      disabled={generatingReport || !predictedInput}
+                    >
+                      {generatingReport ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <FileDown className="mr-1 h-3 w-3" />
+                      )}
+                      PDF report
+                    </Button>
+                    {user && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7"
+                        onClick={trackHome}
+                        disabled={trackingHome || !predictedInput}
+                      >
+                        {trackingHome ? (
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        ) : (
+                          <LineChart className="mr-1 h-3 w-3" />
+                        )}
+                        Track this home
+                      </Button>
+                    )}
+                  </div>
+                  {prediction.narrative && (
+                    <div className="space-y-2 text-sm text-muted-foreground">
+                      <p className="leading-relaxed">{prediction.narrative.summary}</p>
+                      {prediction.narrative.keyDrivers.length > 0 && (
+                        <ul className="space-y-1">
+                          {prediction.narrative.keyDrivers.map((driver) => (
+                            <li key={driver}>• {driver}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                  <p className="flex items-start text-xs text-muted-foreground">
+                    <Info className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                    Statistical model {prediction.model.version}, trained on {prediction.model.sampleSize} listings.
+                    The true value falls inside the range about {prediction.intervalLevel}% of the time.
+                  </p>
                 </CardContent>
               </Card>
 
-              {/* Price Factors */}
+              {/* Price Breakdown */}
               <Card className="border-border/50 shadow-card">
                 <CardHeader>
                   <CardTitle className="flex items-center">
                     <BarChart3 className="h-5 w-5 mr-2" />
-                    Price Factors
+                    Price Breakdown
                   </CardTitle>
                   <CardDescription>
-                    How different factors influence your property value
+                    How much each feature adds to or takes off the estimate
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-3">
-                    {Object.entries(prediction.factors).map(([factor, score]) => (
-                      <div key={factor} className="space-y-1">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm font-medium capitalize">
-                            {factor === 'bedrooms' ? 'Bedrooms & Layout' : factor}
-                          </span>
-                          <span className="text-sm text-muted-foreground">
-                            {Math.round(score)}%
-                          </span>
-                        </div>
-                        <div className="h-2 bg-muted rounded-full overflow-hidden">
-                          <div 
-                            className="h-full bg-primary transition-all duration-300"
-                            style={{ width: `${score}%` }}
-                          />
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  {prediction.contributions ? (
+                    <PriceWaterfall contributions={prediction.contributions} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      This estimate was saved before price breakdowns were available. Refresh it to see one.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -473,25 +921,52 @@ const PricePrediction = () => {
                     Comparable Properties
                   </CardTitle>
                   <CardDescription>
-                    Similar properties in your area
+                    Listings on SmartHome Finder most similar to yours
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {prediction.comparableProperties.map((comp, index) => (
-                      <div key={index} className="flex justify-between items-center p-3 rounded-lg border">
-                        <div>
-                          <div className="font-medium">{formatPrice(comp.price)}</div>
-                          <div className="text-sm text-muted-foreground">{comp.distance}</div>
+                    {prediction.comparableProperties.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No comparable properties found.</p>
+                    )}
+                    {prediction.comparableProperties.map((comp) => (
+                      <Link
+                        key={comp.id}
+                        to={`/property/${comp.id}`}
+                        className="flex justify-between items-center gap-4 p-3 rounded-lg border transition-colors hover:bg-muted/50"
+                      >
+                        <div className="min-w-0">
+                          <div className="font-medium">
+                            {formatPrice(comp.price)}
+                            {comp.status && comp.status !== 'available' && (
+                              <span className="ml-2 text-xs font-normal text-muted-foreground capitalize">{comp.status}</span>
+                            )}
+                          </div>
+                          <div className="text-sm truncate">{comp.title}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {comp.bedrooms === 0 ? 'Studio' : `${comp.bedrooms} bd`} · {comp.bathrooms} ba · {comp.areaSqft} sqft ·{' '}
+                            {comp.distanceMiles !== null ? `${comp.distanceMiles.toFixed(1)} miles` : `${comp.city}, ${comp.state}`}
+                          </div>
                         </div>
-                        <Badge variant="outline">
+                        <Badge variant="outline" className="shrink-0">
                           {comp.similarity}% match
                         </Badge>
-                      </div>
+                      </Link>
                     ))}
                   </div>
                 </CardContent>
               </Card>
+
+              {/* What-if Scenarios */}
+              {predictedInput && (
+                <WhatIfScenarios
+                  key={JSON.stringify(predictedInput)}
+                  baseInput={predictedInput}
+                  basePrediction={prediction}
+                  disabled={loading || quota?.remaining === 0}
+                  onQuotaChange={setQuota}
+                />
+              )}
             </>
           ) : (
             /* Placeholder */
@@ -504,7 +979,7 @@ const PricePrediction = () => {
                   Ready for Your Prediction?
                 </h3>
                 <p className="text-muted-foreground mb-4">
-                  Fill out the property details to get an AI-powered price estimate
+                  Fill out the property details to get a data-driven {mode === 'rent' ? 'rent' : 'price'} estimate
                 </p>
                 <div className="bg-muted/50 rounded-lg p-4 text-left">
                   <div className="flex items-start space-x-2">
@@ -512,10 +987,10 @@ const PricePrediction = () => {
                     <div className="text-sm text-muted-foreground">
                       <p className="font-medium text-foreground mb-1">How it works:</p>
                       <ul className="space-y-1">
-                        <li>• AI analyzes comparable properties</li>
-                        <li>• Market trends and location data</li>
+                        <li>• A regression model trained on our listings</li>
+                        <li>• Location, size and property type</li>
                         <li>• Property features and amenities</li>
-                        <li>• Real-time market conditions</li>
+                        <li>• An honest range, wider when data is thin</li>
                       </ul>
                     </div>
                   </div>
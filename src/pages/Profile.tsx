@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Camera, Loader2, User } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+const profileSchema = z.object({
+  fullName: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  phone: z
+    .string()
+    .trim()
+    .max(30, 'Phone number is too long')
+    .regex(/^[+\d\s().-]*$/, 'Use digits, spaces and + ( ) - only'),
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const Profile = () => {
+  const { user, profile, loading: authLoading, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { fullName: '', phone: '' },
+  });
+
+  useEffect(() => {
+    if (profile) {
+      form.reset({
+        fullName: profile.full_name ?? '',
+        phone: profile.phone ?? '',
+      });
+    }
+  }, [profile, form]);
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    const { error } = await updateProfile({
+      full_name: values.fullName,
+      phone: values.phone || null,
+    });
+
+    if (error) {
+      toast({
+        title: "Couldn't save profile",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Profile updated",
+        description: "Your changes have been saved.",
+      });
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Unsupported file",
+        description: "Please choose an image file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast({
+        title: "Image too large",
+        description: "Avatars must be 2 MB or smaller.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const extension = file.name.split('.').pop() || 'png';
+      const path = `${user.id}/avatar-${Date.now()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(path, file, { upsert: true, contentType: file.type });
+
+      if (uploadError) {
+        throw uploadError;
+      }
+
+      const { data } = supabase.storage.from('avatars').getPublicUrl(path);
+      const { error } = await updateProfile({ avatar_url: data.publicUrl });
+
+      if (error) {
+        throw error;
+      }
+
+      toast({
+        title: "Avatar updated",
+        description: "Your new photo is live.",
+      });
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      toast({
+        title: "Upload failed",
+        description: "Unable to upload your avatar. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <User className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">Your Profile</h1>
+        <p className="text-muted-foreground">Sign in to manage your profile.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-2xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Your Profile</h1>
+        <p className="text-muted-foreground">Manage how you appear to agents and other users.</p>
+      </div>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Photo</CardTitle>
+          <CardDescription>JPG, PNG or WebP, up to 2 MB.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center gap-6">
+          <Avatar className="h-20 w-20">
+            <AvatarImage src={profile?.avatar_url ?? undefined} alt={profile?.full_name || "User"} />
+            <AvatarFallback className="text-2xl">
+              {profile?.full_name?.charAt(0) || user?.email?.charAt(0)?.toUpperCase() || "U"}
+            </AvatarFallback>
+          </Avatar>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleAvatarChange}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={uploading}>
+            {uploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Camera className="mr-2 h-4 w-4" />
+            )}
+            {uploading ? 'Uploading...' : 'Change photo'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Personal details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <Input value={user?.email ?? ''} disabled />
+                <FormDescription>Your sign-in email can't be changed here.</FormDescription>
+              </FormItem>
+
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Jane Doe" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="+1 555 0123" {...field} />
+                    </FormControl>
+                    <FormDescription>Shared with agents only when you contact them.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" disabled={form.formState.isSubmitting || !form.formState.isDirty}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save changes
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Profile;
@@ -5,25 +5,29 @@ import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Slider } from "@/components/ui/slider";
-import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Search, 
   MapPin, 
   Heart, 
-  Filter,
   Grid3X3,
   List,
   ArrowUpDown,
   Bed,
   Bath,
   Maximize,
-  Eye
+  Eye,
+  BookmarkPlus,
+  Calculator
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Database } from "@/integrations/supabase/types";
+import { PropertyFiltersPanel } from "@/components/properties/PropertyFiltersPanel";
+import { SaveSearchDialog } from "@/components/properties/SaveSearchDialog";
+import { DealScoreBadge } from "@/components/properties/DealScoreBadge";
+import { buildPropertiesQuery, defaultPropertyFilters, PropertyFilters } from "@/lib/propertyFilters";
+import { parseSavedSearchFilters, SORT_OPTIONS } from "@/lib/savedSearches";
 
 type Property = Database['public']['Tables']['properties']['Row'];
 
@@ -38,20 +42,43 @@ const Properties = () => {
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
   
   // Filters
-  const [filters, setFilters] = useState({
-    propertyType: '',
-    priceRange: [0, 5000000] as [number, number],
-    bedrooms: '',
-    bathrooms: '',
-    minArea: '',
-    maxArea: '',
-    city: '',
-    amenities: [] as string[],
-  });
+  const [filters, setFilters] = useState<PropertyFilters>(defaultPropertyFilters);
   
   const [sortBy, setSortBy] = useState('created_at');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+
+  // Opening a saved search restores its query, filters and sort
+  const savedSearchId = searchParams.get('savedSearch');
+  useEffect(() => {
+    if (!savedSearchId) return;
+
+    const applySavedSearch = async () => {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('id', savedSearchId)
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error('Error loading saved search:', error);
+        toast({
+          title: "Saved search not found",
+          description: "It may have been deleted.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFilters(parseSavedSearchFilters(data.filters));
+      setSearchQuery(data.search_query);
+      setSortBy(data.sort_by);
+      setSortOrder(data.sort_order === 'asc' ? 'asc' : 'desc');
+    };
+
+    applySavedSearch();
+  }, [savedSearchId, toast]);
 
   useEffect(() => {
     fetchProperties();
@@ -63,46 +90,10 @@ const Properties = () => {
   const fetchProperties = async () => {
     setLoading(true);
     try {
-      let query = supabase
-        .from('properties')
-        .select('*')
-        .eq('status', 'available');
+      let query = buildPropertiesQuery(filters, searchQuery);
 
-      // Apply search
-      if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,city.ilike.%${searchQuery}%,address.ilike.%${searchQuery}%`);
-      }
-
-      // Apply filters
-      if (filters.propertyType) {
-        query = query.eq('property_type', filters.propertyType);
-      }
-      
-      if (filters.city) {
-        query = query.ilike('city', `%${filters.city}%`);
-      }
-      
-      if (filters.bedrooms) {
-        query = query.eq('bedrooms', parseInt(filters.bedrooms));
-      }
-      
-      if (filters.bathrooms) {
-        query = query.eq('bathrooms', parseInt(filters.bathrooms));
-      }
-      
-      if (filters.minArea) {
-        query = query.gte('area_sqft', parseInt(filters.minArea));
-      }
-      
-      if (filters.maxArea) {
-        query = query.lte('area_sqft', parseInt(filters.maxArea));
-      }
-
-      // Price range filter
-      query = query.gte('price', filters.priceRange[0]).lte('price', filters.priceRange[1]);
-
-      // Apply sorting
-      query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+      // Apply sorting; listings without a deal score go last either way
+      query = query.order(sortBy, { ascending: sortOrder === 'asc', nullsFirst: false });
 
       const { data, error } = await query;
 
@@ -189,20 +180,6 @@ const Properties = () => {
     }
   };
 
-  const trackPropertyView = async (propertyId: string) => {
-    try {
-      await supabase
-        .from('property_views')
-        .insert({ 
-          property_id: propertyId,
-          user_id: user?.id || null,
-          session_id: sessionStorage.getItem('session_id') || Math.random().toString(36)
-        });
-    } catch (error) {
-      console.error('Error tracking view:', error);
-    }
-  };
-
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -217,17 +194,14 @@ const Properties = () => {
     setSearchParams(searchQuery ? { search: searchQuery } : {});
   };
 
+  // The best deals have the lowest scores, so start that sort ascending
+  const handleSortChange = (value: string) => {
+    setSortBy(value);
+    if (value === 'deal_score') setSortOrder('asc');
+  };
+
   const clearFilters = () => {
-    setFilters({
-      propertyType: '',
-      priceRange: [0, 5000000],
-      bedrooms: '',
-      bathrooms: '',
-      minArea: '',
-      maxArea: '',
-      city: '',
-      amenities: [],
-    });
+    setFilters(defaultPropertyFilters);
     setSearchQuery('');
     setSearchParams({});
   };
@@ -243,12 +217,16 @@ const Properties = () => {
         <Badge className="absolute top-3 left-3 bg-primary">
           {String(property.property_type)}
         </Badge>
+        <DealScoreBadge
+          dealScore={property.deal_score}
+          estimatedPrice={property.estimated_price}
+          className="absolute bottom-3 left-3"
+        />
         <div className="absolute top-3 right-3 flex space-x-2">
           <Button
             variant="ghost"
             size="icon"
             className="h-8 w-8 bg-background/80 hover:bg-background"
-            onClick={() => trackPropertyView(property.id)}
             asChild
           >
             <Link to={`/property/${property.id}`}>
@@ -297,6 +275,12 @@ const Properties = () => {
               </div>
             </div>
           </div>
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <Link to={`/price-prediction?propertyId=${property.id}`}>
+              <Calculator className="mr-2 h-4 w-4" />
+              Estimate this home
+            </Link>
+          </Button>
         </div>
       </CardHeader>
     </Card>
@@ -348,15 +332,14 @@ const Properties = () => {
           </form>
           
           <div className="flex items-center space-x-2">
-            <Select value={sortBy} onValueChange={setSortBy}>
+            <Select value={sortBy} onValueChange={handleSortChange}>
               <SelectTrigger className="w-40">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="created_at">Date Added</SelectItem>
-                <SelectItem value="price">Price</SelectItem>
-                <SelectItem value="area_sqft">Size</SelectItem>
-                <SelectItem value="bedrooms">Bedrooms</SelectItem>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             
@@ -367,6 +350,11 @@ const Properties = () => {
             >
               <ArrowUpDown className="h-4 w-4" />
             </Button>
+
+            <Button variant="outline" onClick={() => setSaveDialogOpen(true)}>
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+              Save search
+            </Button>
           </div>
         </div>
       </div>
@@ -374,126 +362,11 @@ const Properties = () => {
       <div className="flex gap-6">
         {/* Filters Sidebar */}
         <div className="w-80 space-y-6 hidden lg:block">
-          <Card className="p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold flex items-center">
-                <Filter className="h-4 w-4 mr-2" />
-                Filters
-              </h3>
-              <Button variant="ghost" size="sm" onClick={clearFilters}>
-                Clear All
-              </Button>
-            </div>
-            
-            <div className="space-y-6">
-              {/* Property Type */}
-              <div>
-                <label className="text-sm font-medium mb-2 block">Property Type</label>
-                <Select value={filters.propertyType} onValueChange={(value) => 
-                  setFilters(prev => ({ ...prev, propertyType: value }))
-                }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Any type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="">Any type</SelectItem>
-                    <SelectItem value="apartment">Apartment</SelectItem>
-                    <SelectItem value="house">House</SelectItem>
-                    <SelectItem value="villa">Villa</SelectItem>
-                    <SelectItem value="penthouse">Penthouse</SelectItem>
-                    <SelectItem value="studio">Studio</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Price Range */}
-              <div>
-                <label className="text-sm font-medium mb-2 block">
-                  Price Range: {formatPrice(filters.priceRange[0])} - {formatPrice(filters.priceRange[1])}
-                </label>
-                <Slider
-                  value={filters.priceRange}
-                  onValueChange={(value) => 
-                    setFilters(prev => ({ ...prev, priceRange: value as [number, number] }))
-                  }
-                  max={5000000}
-                  min={0}
-                  step={50000}
-                  className="mt-2"
-                />
-              </div>
-
-              {/* Bedrooms */}
-              <div>
-                <label className="text-sm font-medium mb-2 block">Bedrooms</label>
-                <Select value={filters.bedrooms} onValueChange={(value) => 
-                  setFilters(prev => ({ ...prev, bedrooms: value }))
-                }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Any" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="">Any</SelectItem>
-                    <SelectItem value="0">Studio</SelectItem>
-                    <SelectItem value="1">1 Bedroom</SelectItem>
-                    <SelectItem value="2">2 Bedrooms</SelectItem>
-                    <SelectItem value="3">3 Bedrooms</SelectItem>
-                    <SelectItem value="4">4 Bedrooms</SelectItem>
-                    <SelectItem value="5">5+ Bedrooms</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Bathrooms */}
-              <div>
-                <label className="text-sm font-medium mb-2 block">Bathrooms</label>
-                <Select value={filters.bathrooms} onValueChange={(value) => 
-                  setFilters(prev => ({ ...prev, bathrooms: value }))
-                }>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Any" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="">Any</SelectItem>
-                    <SelectItem value="1">1 Bathroom</SelectItem>
-                    <SelectItem value="2">2 Bathrooms</SelectItem>
-                    <SelectItem value="3">3 Bathrooms</SelectItem>
-                    <SelectItem value="4">4+ Bathrooms</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Area */}
-              <div className="space-y-4">
-                <label className="text-sm font-medium block">Area (sq ft)</label>
-                <div className="grid grid-cols-2 gap-2">
-                  <Input
-                    type="number"
-                    placeholder="Min"
-                    value={filters.minArea}
-                    onChange={(e) => setFilters(prev => ({ ...prev, minArea: e.target.value }))}
-                  />
-                  <Input
-                    type="number"
-                    placeholder="Max"
-                    value={filters.maxArea}
-                    onChange={(e) => setFilters(prev => ({ ...prev, maxArea: e.target.value }))}
-                  />
-                </div>
-              </div>
-
-              {/* City */}
-              <div>
-                <label className="text-sm font-medium mb-2 block">City</label>
-                <Input
-                  type="text"
-                  placeholder="Enter city name"
-                  value={filters.city}
-                  onChange={(e) => setFilters(prev => ({ ...prev, city: e.target.value }))}
-                />
-              </div>
-            </div>
-          </Card>
+          <PropertyFiltersPanel
+            filters={filters}
+            onFiltersChange={setFilters}
+            onClear={clearFilters}
+          />
         </div>
 
         {/* Properties Grid */}
@@ -541,6 +414,15 @@ const Properties = () => {
           )}
         </div>
       </div>
+
+      <SaveSearchDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        filters={filters}
+        searchQuery={searchQuery}
+        sortBy={sortBy}
+        sortOrder={sortOrder}
+      />
     </div>
   );
 };
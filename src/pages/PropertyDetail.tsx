@@ -0,0 +1,402 @@
+import { useState, useEffect, useRef } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import {
+  ArrowLeft,
+  MapPin,
+  Heart,
+  Bed,
+  Bath,
+  Maximize,
+  Calendar,
+  Car,
+  Sofa,
+  PawPrint,
+  Phone,
+  User,
+  Check,
+  Search
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { PriceHistoryChart } from "@/components/properties/PriceHistoryChart";
+
+type Property = Database['public']['Tables']['properties']['Row'];
+
+const getSessionId = () => {
+  let sessionId = sessionStorage.getItem('session_id');
+  if (!sessionId) {
+    sessionId = Math.random().toString(36).slice(2);
+    sessionStorage.setItem('session_id', sessionId);
+  }
+  return sessionId;
+};
+
+const PropertyDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const trackedViewId = useRef<string | null>(null);
+
+  const [property, setProperty] = useState<Property | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isFavorite, setIsFavorite] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchProperty = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('properties')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error fetching property:', error);
+          toast({
+            title: "Error loading property",
+            description: "Please try again later.",
+            variant: "destructive",
+          });
+        } else {
+          setProperty(data);
+        }
+      } catch (error) {
+        console.error('Error:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProperty();
+  }, [id, toast]);
+
+  // Record a single view per property once auth has settled, so signed-in views carry the user
+  useEffect(() => {
+    if (!id || authLoading || trackedViewId.current === id) return;
+    trackedViewId.current = id;
+
+    const trackPropertyView = async () => {
+      try {
+        await supabase
+          .from('property_views')
+          .insert({
+            property_id: id,
+            user_id: user?.id || null,
+            session_id: getSessionId(),
+          });
+      } catch (error) {
+        console.error('Error tracking view:', error);
+      }
+    };
+
+    trackPropertyView();
+  }, [id, user?.id, authLoading]);
+
+  useEffect(() => {
+    if (!id || !user) {
+      setIsFavorite(false);
+      return;
+    }
+
+    const fetchFavorite = async () => {
+      const { data, error } = await supabase
+        .from('user_favorites')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('property_id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching favorite:', error);
+      } else {
+        setIsFavorite(!!data);
+      }
+    };
+
+    fetchFavorite();
+  }, [id, user]);
+
+  const toggleFavorite = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to save properties.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (isFavorite) {
+        const { error } = await supabase
+          .from('user_favorites')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('property_id', id!);
+        if (error) throw error;
+
+        setIsFavorite(false);
+        toast({
+          title: "Removed from favorites",
+          description: "Property removed from your saved list.",
+        });
+      } else {
+        const { error } = await supabase
+          .from('user_favorites')
+          .insert({ user_id: user.id, property_id: id! });
+        if (error) throw error;
+
+        setIsFavorite(true);
+        toast({
+          title: "Added to favorites",
+          description: "Property saved to your favorites!",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update favorites. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  if (loading) {
+    return (
+      <div className="container max-w-6xl mx-auto px-4 py-8 space-y-6 animate-pulse">
+        <div className="h-8 bg-muted rounded w-1/3"></div>
+        <div className="h-96 bg-muted rounded-lg"></div>
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 h-64 bg-muted rounded-lg"></div>
+          <div className="h-64 bg-muted rounded-lg"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!property) {
+    return (
+      <div className="container max-w-6xl mx-auto px-4 py-12 text-center space-y-4">
+        <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto">
+          <Search className="h-12 w-12 text-muted-foreground" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">Property not found</h1>
+        <p className="text-muted-foreground">
+          This listing may have been removed or the link is incorrect.
+        </p>
+        <Button asChild>
+          <Link to="/properties">Back to Properties</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const images = Array.isArray(property.images) && property.images.length > 0
+    ? property.images.map(String)
+    : ['/placeholder.svg'];
+  const amenities = Array.isArray(property.amenities) ? property.amenities.map(String) : [];
+  const features = property.features && typeof property.features === 'object' && !Array.isArray(property.features)
+    ? Object.entries(property.features)
+    : [];
+
+  const specs = [
+    { icon: Bed, label: "Bedrooms", value: property.bedrooms === 0 ? 'Studio' : property.bedrooms },
+    { icon: Bath, label: "Bathrooms", value: property.bathrooms },
+    { icon: Maximize, label: "Area", value: `${property.area_sqft} sqft` },
+    { icon: Calendar, label: "Year Built", value: property.year_built ?? 'N/A' },
+    { icon: Car, label: "Parking", value: property.parking_spaces ?? 0 },
+    { icon: Sofa, label: "Furnished", value: property.furnished ? 'Yes' : 'No' },
+    { icon: PawPrint, label: "Pet Friendly", value: property.pet_friendly ? 'Yes' : 'No' },
+  ];
+
+  return (
+    <div className="container max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <Button variant="ghost" asChild className="-ml-3">
+        <Link to="/properties">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Properties
+        </Link>
+      </Button>
+
+      {/* Title */}
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge className="bg-primary capitalize">{property.property_type}</Badge>
+            {property.status && property.status !== 'available' && (
+              <Badge variant="secondary" className="capitalize">{property.status}</Badge>
+            )}
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">{property.title}</h1>
+          <div className="flex items-center text-muted-foreground">
+            <MapPin className="h-4 w-4 mr-1" />
+            <span>
+              {property.address}, {property.city}, {property.state} {property.zipcode}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-3xl font-bold text-primary">
+            {formatPrice(property.price)}
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            className={isFavorite ? 'text-red-500' : ''}
+            onClick={toggleFavorite}
+          >
+            <Heart className={`h-5 w-5 ${isFavorite ? 'fill-current' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Image Carousel */}
+      <Carousel className="w-full" opts={{ loop: images.length > 1 }}>
+        <CarouselContent>
+          {images.map((src, index) => (
+            <CarouselItem key={`${src}-${index}`}>
+              <img
+                src={src}
+                alt={`${property.title} - photo ${index + 1}`}
+                className="w-full h-[28rem] object-cover rounded-lg"
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-4" />
+            <CarouselNext className="right-4" />
+          </>
+        )}
+      </Carousel>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Key Facts */}
+          <Card className="border-border/50 shadow-card">
+            <CardHeader>
+              <CardTitle>Overview</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {specs.map((spec) => (
+                  <div key={spec.label} className="flex items-center space-x-3">
+                    <spec.icon className="h-5 w-5 text-primary" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">{spec.label}</p>
+                      <p className="font-medium">{spec.value}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {property.description && (
+                <>
+                  <Separator />
+                  <p className="text-muted-foreground leading-relaxed">{property.description}</p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <PriceHistoryChart propertyId={property.id} currentPrice={property.price} />
+
+          {/* Amenities */}
+          {amenities.length > 0 && (
+            <Card className="border-border/50 shadow-card">
+              <CardHeader>
+                <CardTitle>Amenities</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {amenities.map((amenity) => (
+                    <div key={amenity} className="flex items-center text-sm">
+                      <Check className="h-4 w-4 mr-2 text-success" />
+                      {amenity}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Additional Features */}
+          {features.length > 0 && (
+            <Card className="border-border/50 shadow-card">
+              <CardHeader>
+                <CardTitle>Features</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-3 text-sm">
+                  {features.map(([key, value]) => (
+                    <div key={key}>
+                      <dt className="text-muted-foreground capitalize">{key.replace(/_/g, ' ')}</dt>
+                      <dd className="font-medium">{String(value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Agent Contact */}
+        <div className="space-y-6">
+          <Card className="border-border/50 shadow-card">
+            <CardHeader>
+              <CardTitle>Contact Agent</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                  <User className="h-5 w-5 text-primary" />
+                </div>
+                <div>
+                  <p className="font-medium">{property.agent_name || 'Listing Agent'}</p>
+                  <p className="text-sm text-muted-foreground">Real Estate Agent</p>
+                </div>
+              </div>
+              {property.agent_contact ? (
+                <Button className="w-full" asChild>
+                  <a href={`tel:${property.agent_contact}`}>
+                    <Phone className="mr-2 h-4 w-4" />
+                    {property.agent_contact}
+                  </a>
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">No contact details provided.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyDetail;
@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Bookmark, Pencil, Search, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deliveryOptions,
+  describeSavedSearch,
+  SavedSearch,
+  SavedSearchDelivery,
+  SORT_OPTIONS,
+} from "@/lib/savedSearches";
+
+type SavedSearchWithMatches = SavedSearch & {
+  saved_search_matches: { count: number }[];
+};
+
+const SavedSearches = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [searches, setSearches] = useState<SavedSearchWithMatches[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renaming, setRenaming] = useState<SavedSearch | null>(null);
+  const [newName, setNewName] = useState('');
+  const [deleting, setDeleting] = useState<SavedSearch | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchSearches = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*, saved_search_matches(count)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching saved searches:', error);
+        toast({
+          title: "Error loading saved searches",
+          description: "Please try again later.",
+          variant: "destructive",
+        });
+      } else {
+        setSearches(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchSearches();
+  }, [user, toast]);
+
+  const updateSearch = async (id: string, updates: Partial<Pick<SavedSearch, 'name' | 'paused' | 'delivery'>>) => {
+    const { error } = await supabase
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: "Couldn't update saved search",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setSearches((prev) => prev.map((s) => (s.id === id ? { ...s, ...updates } : s)));
+    return true;
+  };
+
+  const openRename = (search: SavedSearch) => {
+    setNewName(search.name);
+    setRenaming(search);
+  };
+
+  const saveRename = async () => {
+    const name = newName.trim();
+    if (!name || !renaming) return;
+
+    if (await updateSearch(renaming.id, { name })) {
+      setRenaming(null);
+    }
+  };
+
+  const deleteSearch = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', deleting.id);
+
+    if (error) {
+      toast({
+        title: "Couldn't delete saved search",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      setSearches((prev) => prev.filter((s) => s.id !== deleting.id));
+      toast({
+        title: "Saved search deleted",
+        description: `You'll no longer get alerts for "${deleting.name}".`,
+      });
+    }
+    setDeleting(null);
+  };
+
+  const sortLabel = (search: SavedSearch) => {
+    const label = SORT_OPTIONS.find((option) => option.value === search.sort_by)?.label ?? search.sort_by;
+    return `Sorted by ${label.toLowerCase()} (${search.sort_order === 'asc' ? 'ascending' : 'descending'})`;
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <Bookmark className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">Saved Searches</h1>
+        <p className="text-muted-foreground">Sign in to save searches and get alerts for new matches.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Saved Searches</h1>
+        <p className="text-muted-foreground">Get notified when new or updated listings match your criteria.</p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6 space-y-2">
+                <div className="h-5 bg-muted rounded w-1/3"></div>
+                <div className="h-4 bg-muted rounded w-2/3"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : searches.length === 0 ? (
+        <div className="text-center py-12 space-y-4">
+          <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto">
+            <Search className="h-12 w-12 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">No saved searches yet</h3>
+            <p className="text-muted-foreground">
+              Set up filters on the properties page and choose "Save search".
+            </p>
+          </div>
+          <Button asChild>
+            <Link to="/properties">Browse Properties</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {searches.map((search) => {
+            const matchCount = search.saved_search_matches[0]?.count ?? 0;
+
+            return (
+              <Card key={search.id} className="border-border/50 shadow-card">
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-lg font-semibold truncate">{search.name}</h3>
+                        {search.paused && <Badge variant="secondary">Paused</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{describeSavedSearch(search)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {sortLabel(search)} · {matchCount} {matchCount === 1 ? 'match' : 'matches'} · saved{' '}
+                        {formatDistanceToNow(new Date(search.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => openRename(search)} aria-label="Rename">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive"
+                        onClick={() => setDeleting(search)}
+                        aria-label="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-6">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id={`alerts-${search.id}`}
+                          checked={!search.paused}
+                          onCheckedChange={(checked) => updateSearch(search.id, { paused: !checked })}
+                        />
+                        <label htmlFor={`alerts-${search.id}`} className="text-sm">Alerts</label>
+                      </div>
+                      <Select
+                        value={search.delivery}
+                        onValueChange={(value) => updateSearch(search.id, { delivery: value as SavedSearchDelivery })}
+                        disabled={search.paused}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {deliveryOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button variant="outline" asChild>
+                      <Link to={`/properties?savedSearch=${search.id}`}>
+                        <Search className="mr-2 h-4 w-4" />
+                        View results
+                      </Link>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Rename saved search */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename saved search</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={newName}
+            maxLength={80}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveRename()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveRename} disabled={!newName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You'll stop receiving alerts for this search. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteSearch}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SavedSearches;
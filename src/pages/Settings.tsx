@@ -0,0 +1,353 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, Settings as SettingsIcon, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  NotificationSettings,
+  Preferences,
+  notificationSettingsSchema,
+  parseNotificationSettings,
+  parsePreferences,
+  preferencesSchema,
+} from "@/lib/profileSettings";
+import { PROPERTY_TYPES } from "@/lib/predictionSchema";
+
+const channelOptions: { key: keyof NotificationSettings; label: string; description: string }[] = [
+  { key: 'in_app', label: 'In-app', description: 'Show alerts in the notification bell' },
+  { key: 'email', label: 'Email', description: 'Send alerts to your sign-in email' },
+  { key: 'push', label: 'Push', description: 'Browser push notifications' },
+];
+
+const typeOptions: { key: keyof NotificationSettings; label: string; description: string }[] = [
+  { key: 'price_change', label: 'Price changes', description: 'A saved property changes price or status' },
+  { key: 'property_match', label: 'Matching properties', description: 'An updated listing now matches one of your saved searches' },
+  { key: 'new_listing', label: 'New listings', description: 'A new listing matches one of your saved searches' },
+  { key: 'home_value', label: 'Home value', description: 'A home you track moves past its alert threshold' },
+];
+
+const Settings = () => {
+  const { user, profile, loading: authLoading, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [cityInput, setCityInput] = useState('');
+
+  const preferencesForm = useForm<Preferences>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: parsePreferences(null),
+  });
+
+  const notificationsForm = useForm<NotificationSettings>({
+    resolver: zodResolver(notificationSettingsSchema),
+    defaultValues: parseNotificationSettings(null),
+  });
+
+  useEffect(() => {
+    if (profile) {
+      preferencesForm.reset(parsePreferences(profile.preferences));
+      notificationsForm.reset(parseNotificationSettings(profile.notification_settings));
+    }
+  }, [profile, preferencesForm, notificationsForm]);
+
+  const saveSettings = async (updates: Parameters<typeof updateProfile>[0], successMessage: string) => {
+    const { error } = await updateProfile(updates);
+
+    if (error) {
+      toast({
+        title: "Couldn't save settings",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Settings saved",
+        description: successMessage,
+      });
+    }
+  };
+
+  const onSavePreferences = (values: Preferences) =>
+    saveSettings({ preferences: values }, "Your search preferences have been updated.");
+
+  const onSaveNotifications = (values: NotificationSettings) =>
+    saveSettings({ notification_settings: values }, "Your notification settings have been updated.");
+
+  const addCity = (cities: string[], onChange: (value: string[]) => void) => {
+    const city = cityInput.trim();
+    if (!city) return;
+    if (!cities.some((c) => c.toLowerCase() === city.toLowerCase())) {
+      onChange([...cities, city]);
+    }
+    setCityInput('');
+  };
+
+  const toNullableNumber = (value: string) => (value === '' ? null : Number(value));
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <SettingsIcon className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        <p className="text-muted-foreground">Sign in to manage your preferences.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-2xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        <p className="text-muted-foreground">Tune recommendations and choose how we keep you posted.</p>
+      </div>
+
+      {/* Search Preferences */}
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Search preferences</CardTitle>
+          <CardDescription>Used to personalise listings and new-listing alerts.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...preferencesForm}>
+            <form onSubmit={preferencesForm.handleSubmit(onSavePreferences)} className="space-y-6">
+              <FormField
+                control={preferencesForm.control}
+                name="targetCities"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target cities</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input
+                          placeholder="Add a city and press Enter"
+                          value={cityInput}
+                          onChange={(e) => setCityInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              addCity(field.value, field.onChange);
+                            }
+                          }}
+                        />
+                      </FormControl>
+                      <Button type="button" variant="outline" onClick={() => addCity(field.value, field.onChange)}>
+                        Add
+                      </Button>
+                    </div>
+                    {field.value.length > 0 && (
+                      <div className="flex flex-wrap gap-2 pt-1">
+                        {field.value.map((city) => (
+                          <Badge key={city} variant="secondary" className="gap-1">
+                            {city}
+                            <button
+                              type="button"
+                              aria-label={`Remove ${city}`}
+                              onClick={() => field.onChange(field.value.filter((c) => c !== city))}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={preferencesForm.control}
+                  name="minBudget"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Min budget ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="No minimum"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={preferencesForm.control}
+                  name="maxBudget"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max budget ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="No maximum"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={preferencesForm.control}
+                name="minBedrooms"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum bedrooms</FormLabel>
+                    <Select
+                      value={field.value === null ? 'any' : String(field.value)}
+                      onValueChange={(value) => field.onChange(value === 'any' ? null : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="any">Any</SelectItem>
+                        <SelectItem value="0">Studio</SelectItem>
+                        <SelectItem value="1">1+</SelectItem>
+                        <SelectItem value="2">2+</SelectItem>
+                        <SelectItem value="3">3+</SelectItem>
+                        <SelectItem value="4">4+</SelectItem>
+                        <SelectItem value="5">5+</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={preferencesForm.control}
+                name="propertyTypes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Property types</FormLabel>
+                    <FormDescription>Leave all unchecked to see every type.</FormDescription>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 pt-1">
+                      {PROPERTY_TYPES.map((type) => (
+                        <div key={type} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`type-${type}`}
+                            checked={field.value.includes(type)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(checked ? [...field.value, type] : field.value.filter((t) => t !== type))
+                            }
+                          />
+                          <label htmlFor={`type-${type}`} className="text-sm capitalize">{type}</label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" disabled={preferencesForm.formState.isSubmitting || !preferencesForm.formState.isDirty}>
+                {preferencesForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save preferences
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {/* Notification Settings */}
+      <Card className="border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Notifications</CardTitle>
+          <CardDescription>Pick where alerts go and which ones you want.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...notificationsForm}>
+            <form onSubmit={notificationsForm.handleSubmit(onSaveNotifications)} className="space-y-6">
+              <div className="space-y-4">
+                <h4 className="text-sm font-semibold">Channels</h4>
+                {channelOptions.map((option) => (
+                  <FormField
+                    key={option.key}
+                    control={notificationsForm.control}
+                    name={option.key}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between space-y-0">
+                        <div>
+                          <FormLabel>{option.label}</FormLabel>
+                          <FormDescription>{option.description}</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <h4 className="text-sm font-semibold">Alert types</h4>
+                {typeOptions.map((option) => (
+                  <FormField
+                    key={option.key}
+                    control={notificationsForm.control}
+                    name={option.key}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between space-y-0">
+                        <div>
+                          <FormLabel>{option.label}</FormLabel>
+                          <FormDescription>{option.description}</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <Button type="submit" disabled={notificationsForm.formState.isSubmitting || !notificationsForm.formState.isDirty}>
+                {notificationsForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save notification settings
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,307 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Calculator, Eye, History, Pencil, RefreshCw, Trash2, TrendingDown, TrendingUp } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { predictionResultSchema } from "@/lib/predictionSchema";
+import { previousValuations, ValuationHistoryEntry } from "@/lib/valuationHistory";
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+
+const ValuationHistory = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [valuations, setValuations] = useState<ValuationHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renaming, setRenaming] = useState<ValuationHistoryEntry | null>(null);
+  const [newName, setNewName] = useState('');
+  const [deleting, setDeleting] = useState<ValuationHistoryEntry | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchValuations = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('price_predictions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching valuation history:', error);
+        toast({
+          title: "Error loading valuation history",
+          description: "Please try again later.",
+          variant: "destructive",
+        });
+      } else {
+        setValuations(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchValuations();
+  }, [user, toast]);
+
+  const previous = previousValuations(valuations);
+
+  const openRename = (valuation: ValuationHistoryEntry) => {
+    setNewName(valuation.name);
+    setRenaming(valuation);
+  };
+
+  const saveRename = async () => {
+    const name = newName.trim();
+    if (!name || !renaming) return;
+
+    const { error } = await supabase
+      .from('price_predictions')
+      .update({ name })
+      .eq('id', renaming.id);
+
+    if (error) {
+      toast({
+        title: "Couldn't rename estimate",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setValuations((prev) => prev.map((v) => (v.id === renaming.id ? { ...v, name } : v)));
+    setRenaming(null);
+  };
+
+  const deleteValuation = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase
+      .from('price_predictions')
+      .delete()
+      .eq('id', deleting.id);
+
+    if (error) {
+      toast({
+        title: "Couldn't delete estimate",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      // Re-runs of a deleted estimate lose their source_id in the database; mirror that locally
+      setValuations((prev) =>
+        prev
+          .filter((v) => v.id !== deleting.id)
+          .map((v) => (v.source_id === deleting.id ? { ...v, source_id: null } : v))
+      );
+      toast({
+        title: "Estimate deleted",
+        description: `"${deleting.name}" was removed from your history.`,
+      });
+    }
+    setDeleting(null);
+  };
+
+  const renderChange = (valuation: ValuationHistoryEntry) => {
+    const before = previous.get(valuation.id);
+    if (!before) return null;
+
+    const change = (valuation.estimated_price - before.estimated_price) / before.estimated_price;
+    const Icon = change >= 0 ? TrendingUp : TrendingDown;
+    return (
+      <p className={`flex items-center text-xs ${change >= 0 ? 'text-success' : 'text-destructive'}`}>
+        <Icon className="h-3 w-3 mr-1" />
+        {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}% since {formatPrice(before.estimated_price)} on{' '}
+        {format(new Date(before.created_at), 'MMM d, yyyy')}
+      </p>
+    );
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="container max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+        <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto">
+          <History className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-3xl font-bold text-foreground">Valuation History</h1>
+        <p className="text-muted-foreground">Sign in to keep every price estimate and see how values change.</p>
+        <Button asChild>
+          <Link to="/auth">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Valuation History</h1>
+        <p className="text-muted-foreground">Every estimate you've run, newest first. Re-run one to see how its value has moved.</p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6 space-y-2">
+                <div className="h-5 bg-muted rounded w-1/3"></div>
+                <div className="h-4 bg-muted rounded w-2/3"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : valuations.length === 0 ? (
+        <div className="text-center py-12 space-y-4">
+          <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto">
+            <Calculator className="h-12 w-12 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">No estimates yet</h3>
+            <p className="text-muted-foreground">
+              Estimates you get on the price prediction page are saved here.
+            </p>
+          </div>
+          <Button asChild>
+            <Link to="/price-prediction">Get an Estimate</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {valuations.map((valuation) => {
+            const prediction = predictionResultSchema.safeParse(valuation.prediction);
+
+            return (
+              <Card key={valuation.id} className="border-border/50 shadow-card">
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-lg font-semibold truncate">{valuation.name}</h3>
+                        {valuation.source_id && <Badge variant="secondary">Re-run</Badge>}
+                      </div>
+                      <p className="text-2xl font-bold text-primary">{formatPrice(valuation.estimated_price)}</p>
+                      {prediction.success && (
+                        <p className="text-sm text-muted-foreground">
+                          {prediction.data.intervalLevel}% range: {formatPrice(prediction.data.priceRange.min)} -{' '}
+                          {formatPrice(prediction.data.priceRange.max)}
+                        </p>
+                      )}
+                      {renderChange(valuation)}
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(valuation.created_at), 'MMM d, yyyy h:mm a')} · model {valuation.model_version}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => openRename(valuation)} aria-label="Rename">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive"
+                        onClick={() => setDeleting(valuation)}
+                        aria-label="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button variant="outline" asChild>
+                      <Link to={`/price-prediction?valuation=${valuation.id}`}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        Open
+                      </Link>
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <Link to={`/price-prediction?valuation=${valuation.id}&rerun=1`}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Re-run
+                      </Link>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Rename estimate */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename estimate</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={newName}
+            maxLength={120}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveRename()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveRename} disabled={!newName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This estimate will be removed from your history. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteValuation}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ValuationHistory;
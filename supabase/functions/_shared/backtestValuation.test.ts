@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestResult, BacktestRow, holdoutPredictor, runBacktest, summarizeErrors } from './backtestValuation.ts';
+
+const sale = (id: string, price: number, overrides: Partial<BacktestRow> = {}): BacktestRow => ({
+  id,
+  price,
+  propertyType: 'house',
+  bedrooms: 3,
+  bathrooms: 2,
+  area: 1800,
+  city: 'Austin',
+  state: 'TX',
+  amenities: [],
+  ...overrides,
+});
+
+// Predicted prices by id, so each row's error is known in advance
+const predictions: Record<string, number> = { a: 110000, b: 180000, c: 300000, d: 420000 };
+const fixedPredictor = (row: BacktestRow) => predictions[row.id];
+
+describe('summarizeErrors', () => {
+  it('computes MAE, MAPE, median error and the share within 10%', () => {
+    const results: BacktestResult[] = [
+      { row: sale('a', 100000), predicted: 110000, error: 10000, percentError: 10 },
+      { row: sale('b', 200000), predicted: 180000, error: -20000, percentError: -10 },
+      { row: sale('c', 250000), predicted: 300000, error: 50000, percentError: 20 },
+    ];
+
+    expect(summarizeErrors(results)).toEqual({
+      count: 3,
+      mae: 26667,
+      mape: 13.3,
+      medianAbsoluteError: 20000,
+      within10: 66.7,
+    });
+  });
+
+  it('averages the middle pair for an even count', () => {
+    const results = [10, 20, 30, 40].map((error, i) => ({
+      row: sale(String(i), 1000),
+      predicted: 1000 + error,
+      error,
+      percentError: error / 10,
+    }));
+
+    expect(summarizeErrors(results).medianAbsoluteError).toBe(25);
+  });
+
+  it('reports zeros for no results', () => {
+    expect(summarizeErrors([])).toEqual({ count: 0, mae: 0, mape: 0, medianAbsoluteError: 0, within10: 0 });
+  });
+});
+
+describe('runBacktest', () => {
+  const rows = [
+    sale('a', 100000),
+    sale('b', 200000, { city: ' Austin ', state: 'tx' }),
+    sale('c', 250000, { city: 'Boston', state: 'MA', propertyType: 'Apartment' }),
+    sale('d', 400000, { city: 'Boston', state: 'MA', propertyType: 'apartment' }),
+  ];
+
+  it('groups results by city and by property type', () => {
+    const report = runBacktest(rows, fixedPredictor, { modelVersion: 'test', holdout: false });
+
+    expect(report.overall.count).toBe(4);
+    expect(report.byCity.map(({ key, count }) => [key, count])).toEqual([
+      ['Austin, TX', 2],
+      ['Boston, MA', 2],
+    ]);
+    expect(report.byCity[1]).toMatchObject({ mae: 35000, within10: 50 });
+    expect(report.byPropertyType.map(({ key, count }) => [key, count])).toEqual([
+      ['apartment', 2],
+      ['house', 2],
+    ]);
+  });
+
+  it('skips rows without a price or area and rows the predictor rejects', () => {
+    const report = runBacktest(
+      [...rows, sale('no-price', 0), sale('no-area', 100000, { area: 0 }), sale('unknown', 100000)],
+      (row) => {
+        if (row.id === 'unknown') throw new Error('Unknown property type');
+        return fixedPredictor(row);
+      },
+      { modelVersion: 'test', holdout: false }
+    );
+
+    expect(report.overall.count).toBe(4);
+    expect(report.skipped).toEqual([
+      { id: 'no-price', reason: 'missing price or area' },
+      { id: 'no-area', reason: 'missing price or area' },
+      { id: 'unknown', reason: 'Unknown property type' },
+    ]);
+  });
+
+  it('never lets a holdout prediction see the sale it is valuing', () => {
+    const training = [sale('a', 300000), sale('b', 310000), sale('c', 290000)];
+    const outlier = sale('outlier', 3000000);
+
+    const withOutlier = holdoutPredictor([...training, outlier])(outlier);
+    const withoutOutlier = holdoutPredictor(training)(outlier);
+
+    expect(withOutlier).toBe(withoutOutlier);
+  });
+});
@@ -0,0 +1,119 @@
+import { predictWithModel, ValuationModel } from './valuationModel.ts';
+import { TrainingRow, trainValuationModel } from './trainValuationModel.ts';
+
+// A sold property: the model sees everything but `price`, which is what it has to recover
+export interface BacktestRow extends TrainingRow {
+  id: string;
+}
+
+export interface BacktestResult {
+  row: BacktestRow;
+  predicted: number;
+  // predicted - actual, so positive means the model overvalued
+  error: number;
+  percentError: number;
+}
+
+export interface ErrorSummary {
+  count: number;
+  mae: number;
+  mape: number;
+  medianAbsoluteError: number;
+  // Share of estimates within ±10% of the sale price, as a percentage
+  within10: number;
+}
+
+export interface BacktestGroup extends ErrorSummary {
+  key: string;
+}
+
+export interface BacktestReport {
+  modelVersion: string;
+  holdout: boolean;
+  overall: ErrorSummary;
+  byCity: BacktestGroup[];
+  byPropertyType: BacktestGroup[];
+  // Rows the model could not value, with the reason
+  skipped: { id: string; reason: string }[];
+}
+
+export type Predictor = (row: BacktestRow) => number;
+
+export const modelPredictor = (model: ValuationModel): Predictor => (row) =>
+  predictWithModel(model, row).estimatedPrice;
+
+// Leave-one-out: refit on every training row except the one being valued, so the
+// model never sees the price it is asked for. Rows are matched by id.
+export const holdoutPredictor = (trainingRows: BacktestRow[]): Predictor => (row) => {
+  const model = trainValuationModel(trainingRows.filter((other) => other.id !== row.id));
+  return predictWithModel(model, row).estimatedPrice;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+export function summarizeErrors(results: BacktestResult[]): ErrorSummary {
+  if (results.length === 0) {
+    return { count: 0, mae: 0, mape: 0, medianAbsoluteError: 0, within10: 0 };
+  }
+
+  const absolute = results.map((result) => Math.abs(result.error));
+  const percent = results.map((result) => Math.abs(result.percentError));
+
+  return {
+    count: results.length,
+    mae: Math.round(absolute.reduce((sum, value) => sum + value, 0) / results.length),
+    mape: round(percent.reduce((sum, value) => sum + value, 0) / results.length),
+    medianAbsoluteError: Math.round(median(absolute)),
+    within10: round((100 * percent.filter((value) => value <= 10).length) / results.length),
+  };
+}
+
+function groupBy(results: BacktestResult[], keyOf: (row: BacktestRow) => string): BacktestGroup[] {
+  const groups = new Map<string, BacktestResult[]>();
+  for (const result of results) {
+    const key = keyOf(result.row);
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, members]) => ({ key, ...summarizeErrors(members) }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+export function runBacktest(
+  rows: BacktestRow[],
+  predict: Predictor,
+  options: { modelVersion: string; holdout: boolean }
+): BacktestReport {
+  const results: BacktestResult[] = [];
+  const skipped: BacktestReport['skipped'] = [];
+
+  for (const row of rows) {
+    if (!(row.price > 0) || !(row.area > 0)) {
+      skipped.push({ id: row.id, reason: 'missing price or area' });
+      continue;
+    }
+
+    try {
+      const predicted = predict(row);
+      const error = predicted - row.price;
+      results.push({ row, predicted, error, percentError: (100 * error) / row.price });
+    } catch (error) {
+      skipped.push({ id: row.id, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return {
+    ...options,
+    overall: summarizeErrors(results),
+    byCity: groupBy(results, (row) => `${row.city.trim()}, ${row.state.trim().toUpperCase()}`),
+    byPropertyType: groupBy(results, (row) => row.propertyType.trim().toLowerCase()),
+    skipped,
+  };
+}
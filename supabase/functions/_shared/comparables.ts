@@ -0,0 +1,171 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Listings are publicly readable, so the anon key is enough
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_ANON_KEY')!
+);
+
+const CANDIDATE_LIMIT = 300;
+const EARTH_RADIUS_MILES = 3958.8;
+
+export interface ComparableSubject {
+  propertyType: string;
+  bedrooms: number;
+  bathrooms: number;
+  area: number;
+  city: string;
+  state: string;
+  yearBuilt?: number | null;
+  amenities: string[];
+  latitude?: number | null;
+  longitude?: number | null;
+  // Excluded from the results, e.g. when valuing an existing listing
+  excludeId?: string;
+}
+
+export interface Comparable {
+  id: string;
+  title: string;
+  price: number;
+  city: string;
+  state: string;
+  bedrooms: number;
+  bathrooms: number;
+  areaSqft: number;
+  status: string | null;
+  distanceMiles: number | null;
+  similarity: number;
+}
+
+// Listing fields the similarity score looks at, shared by sale and rental listings
+export interface SimilarityCandidate {
+  property_type: string;
+  bedrooms: number;
+  bathrooms: number;
+  area_sqft: number;
+  city: string;
+  year_built: number | null;
+  amenities: unknown;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface RankedCandidate<T extends SimilarityCandidate> {
+  candidate: T;
+  distanceMiles: number | null;
+  similarity: number;
+}
+
+interface Candidate extends SimilarityCandidate {
+  id: string;
+  title: string;
+  price: number;
+  state: string;
+  status: string | null;
+}
+
+export function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// 1 when equal, falling linearly to 0 at `tolerance` apart
+const closeness = (a: number, b: number, tolerance: number) => Math.max(0, 1 - Math.abs(a - b) / tolerance);
+
+// Weighted similarity out of 100; unknown inputs score half marks
+function scoreSimilarity(subject: ComparableSubject, candidate: SimilarityCandidate, distanceMiles: number | null) {
+  const subjectAmenities = new Set(subject.amenities.map(normalise));
+  const candidateAmenities = new Set(
+    (Array.isArray(candidate.amenities) ? candidate.amenities : []).map((a) => normalise(String(a)))
+  );
+  const shared = [...subjectAmenities].filter((a) => candidateAmenities.has(a)).length;
+  const union = new Set([...subjectAmenities, ...candidateAmenities]).size;
+
+  const score =
+    25 * (normalise(subject.propertyType) === candidate.property_type ? 1 : 0) +
+    15 * closeness(subject.bedrooms, candidate.bedrooms, 3) +
+    10 * closeness(subject.bathrooms, candidate.bathrooms, 3) +
+    20 * closeness(Math.log(Math.max(subject.area, 1)), Math.log(Math.max(candidate.area_sqft, 1)), Math.LN2) +
+    10 * (subject.yearBuilt && candidate.year_built ? closeness(subject.yearBuilt, candidate.year_built, 30) : 0.5) +
+    10 * (union === 0 ? 0.5 : shared / union) +
+    10 * (distanceMiles === null ? 0.5 : closeness(distanceMiles, 0, 25));
+
+  return Math.round(score);
+}
+
+// Real listings from the same state, ranked by similarity to the subject
+export async function findComparables(subject: ComparableSubject, limit = 3): Promise<Comparable[]> {
+  let query = supabase
+    .from('properties')
+    .select('id, title, price, property_type, bedrooms, bathrooms, area_sqft, city, state, year_built, amenities, latitude, longitude, status')
+    .ilike('state', subject.state.trim())
+    .limit(CANDIDATE_LIMIT);
+
+  if (subject.excludeId) {
+    query = query.neq('id', subject.excludeId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return rankBySimilarity(subject, (data ?? []) as Candidate[])
+    .slice(0, limit)
+    .map(({ candidate, distanceMiles, similarity }) => ({
+      id: candidate.id,
+      title: candidate.title,
+      price: Number(candidate.price),
+      city: candidate.city,
+      state: candidate.state,
+      bedrooms: candidate.bedrooms,
+      bathrooms: candidate.bathrooms,
+      areaSqft: candidate.area_sqft,
+      status: candidate.status,
+      distanceMiles,
+      similarity,
+    }));
+}
+
+// Most similar first, nearest first among equals; distances are rounded to 0.1 mi
+export function rankBySimilarity<T extends SimilarityCandidate>(
+  subject: ComparableSubject,
+  candidates: T[]
+): RankedCandidate<T>[] {
+  // Without coordinates for the subject, place it at the centre of its city's listings
+  let origin: { latitude: number; longitude: number } | null =
+    subject.latitude != null && subject.longitude != null
+      ? { latitude: subject.latitude, longitude: subject.longitude }
+      : null;
+
+  if (!origin) {
+    const sameCity = candidates.filter(
+      (c) => normalise(c.city) === normalise(subject.city) && c.latitude != null && c.longitude != null
+    );
+    if (sameCity.length > 0) {
+      origin = {
+        latitude: sameCity.reduce((sum, c) => sum + Number(c.latitude), 0) / sameCity.length,
+        longitude: sameCity.reduce((sum, c) => sum + Number(c.longitude), 0) / sameCity.length,
+      };
+    }
+  }
+
+  return candidates
+    .map((candidate) => {
+      const distanceMiles = origin && candidate.latitude != null && candidate.longitude != null
+        ? haversineMiles(origin.latitude, origin.longitude, Number(candidate.latitude), Number(candidate.longitude))
+        : null;
+
+      return {
+        candidate,
+        distanceMiles: distanceMiles === null ? null : Math.round(distanceMiles * 10) / 10,
+        similarity: scoreSimilarity(subject, candidate, distanceMiles),
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity || (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity));
+}
@@ -0,0 +1,82 @@
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { estimateValue, VALUATION_MODEL_VERSION } from './predictPrice.ts';
+import { valuationRequestSchema } from './predictionSchema.ts';
+
+// Each tracked home is checked for a newer model at most this often by the scheduled run
+export const REVALUE_INTERVAL_DAYS = 7;
+
+interface TrackedHome {
+  id: string;
+  input: unknown;
+}
+
+// A home's details don't change, so its value only moves when the model is retrained.
+// Appends a point to the home's value series when the current model hasn't valued it yet;
+// the record_home_valuation trigger updates the home and sends any alert. Otherwise only
+// last_valued_at moves, so the scheduled run checks the home again next week.
+// Returns the home's value, or null if the home can't be valued.
+export async function revalueHome(home: TrackedHome): Promise<number | null> {
+  const input = valuationRequestSchema.safeParse(home.input);
+  if (!input.success) {
+    console.error(`Tracked home ${home.id} has invalid details:`, input.error.flatten().fieldErrors);
+    return null;
+  }
+
+  const { data: latest, error: latestError } = await supabaseAdmin
+    .from('home_valuations')
+    .select('estimated_price, model_version')
+    .eq('home_id', home.id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    console.error(`Error reading valuations for tracked home ${home.id}:`, latestError);
+    return null;
+  }
+
+  if (latest?.model_version === VALUATION_MODEL_VERSION) {
+    const { error } = await supabaseAdmin
+      .from('tracked_homes')
+      .update({ last_valued_at: new Date().toISOString() })
+      .eq('id', home.id);
+
+    if (error) {
+      console.error(`Error updating tracked home ${home.id}:`, error);
+      return null;
+    }
+    return Number(latest.estimated_price);
+  }
+
+  const valuation = estimateValue(input.data);
+  const { error } = await supabaseAdmin.from('home_valuations').insert({
+    home_id: home.id,
+    estimated_price: valuation.estimatedPrice,
+    price_min: valuation.priceRange.min,
+    price_max: valuation.priceRange.max,
+    model_version: valuation.modelVersion,
+  });
+
+  if (error) {
+    console.error(`Error saving valuation for tracked home ${home.id}:`, error);
+    return null;
+  }
+  return valuation.estimatedPrice;
+}
+
+export async function revalueDueHomes() {
+  const dueBefore = new Date(Date.now() - REVALUE_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('tracked_homes')
+    .select('id, input')
+    .eq('paused', false)
+    .or(`last_valued_at.is.null,last_valued_at.lt.${dueBefore}`);
+
+  if (error) throw error;
+
+  let valued = 0;
+  for (const home of data) {
+    if ((await revalueHome(home)) !== null) valued++;
+  }
+  return { due: data.length, valued };
+}
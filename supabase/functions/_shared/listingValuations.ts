@@ -0,0 +1,89 @@
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { holdoutEstimate, predictWithModel, ValuationInput, ValuationModel } from './valuationModel.ts';
+import modelJson from './valuation-model.json' with { type: 'json' };
+
+const model = modelJson as ValuationModel;
+
+// Listings per price history lookup, to keep the `in` filter's URL short
+const BATCH_SIZE = 100;
+
+// Price each listing had when the model was trained, for the listings it was trained on.
+// Only meaningful when the model was trained on this database's listings.
+async function trainingPrices(ids: string[]): Promise<Map<string, number>> {
+  const { data, error } = await supabaseAdmin
+    .from('property_price_history')
+    .select('property_id, new_price')
+    .in('property_id', ids)
+    .lte('changed_at', model.trainedAt)
+    .order('changed_at', { ascending: true });
+
+  if (error) throw error;
+  // Oldest first, so each listing ends up with its last price before training
+  return new Map(data.map((row) => [row.property_id, Number(row.new_price)]));
+}
+
+// Stores the model's estimate on available listings for the deal score. When the model was
+// trained on this database, the listings it was trained on are valued as if left out of the
+// fit, so their own asking price doesn't pull the estimate towards it. Only listings without
+// an estimate from the current model are valued unless `all` is set.
+export async function valueListings({ all = false } = {}) {
+  let query = supabaseAdmin
+    .from('properties')
+    .select('id, property_type, area_sqft, bedrooms, bathrooms, city, state, year_built, parking_spaces, furnished, pet_friendly, amenities')
+    .eq('status', 'available');
+
+  if (!all) {
+    query = query.or(`valuation_model_version.is.null,valuation_model_version.neq."${model.version}"`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const valuedAt = new Date().toISOString();
+  let valued = 0;
+
+  for (let start = 0; start < data.length; start += BATCH_SIZE) {
+    const batch = data.slice(start, start + BATCH_SIZE);
+    const pricesAtTraining = model.trainedOn === 'database'
+      ? await trainingPrices(batch.map((row) => row.id))
+      : new Map<string, number>();
+
+    for (const row of batch) {
+      const input: ValuationInput = {
+        propertyType: row.property_type,
+        area: row.area_sqft,
+        bedrooms: row.bedrooms,
+        bathrooms: row.bathrooms,
+        city: row.city,
+        state: row.state,
+        yearBuilt: row.year_built,
+        parkingSpaces: row.parking_spaces,
+        furnished: row.furnished,
+        petFriendly: row.pet_friendly,
+        amenities: Array.isArray(row.amenities) ? row.amenities.map(String) : [],
+      };
+
+      const trainingPrice = pricesAtTraining.get(row.id);
+      const estimatedPrice = trainingPrice
+        ? holdoutEstimate(model, input, trainingPrice)
+        : predictWithModel(model, input).estimatedPrice;
+
+      const { error: updateError } = await supabaseAdmin
+        .from('properties')
+        .update({
+          estimated_price: estimatedPrice,
+          valuation_model_version: model.version,
+          valued_at: valuedAt,
+        })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error(`Error storing valuation for ${row.id}:`, updateError);
+      } else {
+        valued++;
+      }
+    }
+  }
+
+  return { due: data.length, valued, modelVersion: model.version };
+}
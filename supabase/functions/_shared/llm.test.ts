@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatMessage, FAKE_ESTIMATE_ARGUMENTS, getLLMProvider, ToolDefinition } from './llm.ts';
+import { valuationRequestSchema } from './predictionSchema.ts';
+
+const tool = (name: string): ToolDefinition => ({
+  type: 'function',
+  function: { name, description: name, parameters: { type: 'object', properties: {} } },
+});
+
+const tools = [tool('search_properties'), tool('get_property_details'), tool('estimate_price')];
+
+const fakeProvider = () => {
+  vi.stubEnv('LLM_PROVIDER', 'fake');
+  const llm = getLLMProvider();
+  if (!llm) throw new Error('Expected the fake provider');
+  return llm;
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getLLMProvider', () => {
+  it('returns null when nothing is configured', () => {
+    vi.stubEnv('LLM_PROVIDER', undefined);
+    vi.stubEnv('OPENAI_API_KEY', undefined);
+    expect(getLLMProvider()).toBeNull();
+  });
+
+  it('selects the fake provider', () => {
+    expect(fakeProvider()).toMatchObject({ name: 'fake', model: 'fake' });
+  });
+
+  it('rejects unknown providers', () => {
+    vi.stubEnv('LLM_PROVIDER', 'carrier-pigeon');
+    expect(() => getLLMProvider()).toThrow('Unknown LLM_PROVIDER: carrier-pigeon');
+  });
+});
+
+describe('fake provider', () => {
+  it('calls estimate_price with valid arguments for value questions', async () => {
+    const reply = await fakeProvider().complete({
+      messages: [{ role: 'user', content: 'What is my house worth?' }],
+      tools,
+    });
+
+    expect(reply.content).toBeNull();
+    expect(reply.tool_calls).toHaveLength(1);
+    const [call] = reply.tool_calls ?? [];
+    expect(call.function.name).toBe('estimate_price');
+
+    const args = JSON.parse(call.function.arguments);
+    expect(args).toEqual(FAKE_ESTIMATE_ARGUMENTS);
+    expect(valuationRequestSchema.safeParse(args).success).toBe(true);
+  });
+
+  it('searches listings for other questions', async () => {
+    const reply = await fakeProvider().complete({
+      messages: [{ role: 'user', content: 'Show me apartments in Boston' }],
+      tools,
+    });
+
+    expect(reply.tool_calls?.[0].function).toEqual({ name: 'search_properties', arguments: '{"limit":3}' });
+  });
+
+  it('answers from tool results once they arrive', async () => {
+    const llm = fakeProvider();
+    const messages: ChatMessage[] = [{ role: 'user', content: 'Show me apartments in Boston' }];
+
+    const call = await llm.complete({ messages, tools });
+    messages.push(call, {
+      role: 'tool',
+      tool_call_id: call.tool_calls?.[0].id,
+      content: JSON.stringify({ results: [{ id: 'listing-1', title: 'Back Bay flat' }] }),
+    });
+
+    const answer = await llm.complete({ messages, tools });
+    expect(answer.tool_calls).toBeUndefined();
+    expect(answer.content).toContain('listing-1');
+  });
+
+  it('is deterministic', async () => {
+    const llm = fakeProvider();
+    const request = { messages: [{ role: 'user', content: 'What is my house worth?' } as ChatMessage], tools };
+    expect(await llm.complete(request)).toEqual(await llm.complete(request));
+  });
+
+  it('replies in plain text without tools', async () => {
+    const reply = await fakeProvider().complete({ messages: [{ role: 'user', content: 'Hello' }] });
+    expect(reply).toEqual({ role: 'assistant', content: 'This is a placeholder response to: Hello' });
+  });
+
+  it('uses FAKE_LLM_RESPONSE when set', async () => {
+    const llm = fakeProvider();
+    vi.stubEnv('FAKE_LLM_RESPONSE', 'Fixed reply');
+
+    const reply = await llm.complete({ messages: [{ role: 'user', content: 'What is my house worth?' }], tools });
+    expect(reply).toEqual({ role: 'assistant', content: 'Fixed reply' });
+  });
+});
@@ -0,0 +1,180 @@
+// Chat-completion providers behind one interface, selected with environment variables:
+//
+//   LLM_PROVIDER  openai (default when OPENAI_API_KEY is set) | openai-compatible | fake
+//   LLM_MODEL     model name, defaults per provider
+//   LLM_BASE_URL  server for openai-compatible, e.g. Ollama or llama.cpp
+//   LLM_API_KEY   optional key for openai-compatible servers
+//
+// Messages and tools use the OpenAI chat format, which local servers also speak.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<ChatMessage>;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+function openAICompatibleProvider(name: string, baseUrl: string, apiKey: string | undefined, model: string): LLMProvider {
+  return {
+    name,
+    model,
+    async complete({ messages, tools, temperature = 0.3, maxTokens = 1000 }) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          ...(tools && tools.length > 0 ? { tools } : {}),
+          temperature,
+          max_tokens: maxTokens,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`${name} API error:`, response.status, response.statusText);
+        throw new Error(`${name} API error: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+        throw new Error(`Invalid response from ${name}`);
+      }
+
+      return data.choices[0].message as ChatMessage;
+    },
+  };
+}
+
+// Arguments the fake provider passes to estimate_price
+export const FAKE_ESTIMATE_ARGUMENTS = {
+  propertyType: 'house',
+  bedrooms: 3,
+  bathrooms: 2,
+  area: 1500,
+  city: 'Austin',
+  state: 'TX',
+};
+
+const VALUE_QUESTION = /\b(worth|value|estimate|valuation)\b/i;
+
+// Always gives the same answer for the same conversation, so functions can be exercised end
+// to end without network access. It plays a plausible part in each conversation it sees:
+//   - asked for the valuation narrative (the prompt mentions "keyDrivers"): valid narrative JSON
+//   - offered tools with a new user message: one tool call, estimate_price for value questions
+//     and search_properties otherwise
+//   - given tool results: an answer that quotes them, so listing ids get cited
+// FAKE_LLM_RESPONSE overrides all of this with a fixed reply.
+function fakeProvider(model: string): LLMProvider {
+  return {
+    name: 'fake',
+    model,
+    complete({ messages, tools = [] }) {
+      const fixed = Deno.env.get('FAKE_LLM_RESPONSE');
+      if (fixed !== undefined) {
+        return Promise.resolve({ role: 'assistant', content: fixed });
+      }
+
+      const last = messages[messages.length - 1];
+      const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+
+      if (lastUserMessage.includes('"keyDrivers"')) {
+        const estimate = lastUserMessage.match(/Estimated value: \$(\d+)/)?.[1];
+        return Promise.resolve({
+          role: 'assistant',
+          content: JSON.stringify({
+            summary: estimate
+              ? `The model estimates this property at $${Number(estimate).toLocaleString('en-US')}.`
+              : 'The model has estimated this property.',
+            keyDrivers: ['Location', 'Size'],
+          }),
+        });
+      }
+
+      if (last?.role === 'tool') {
+        const results = messages.filter((m) => m.role === 'tool').map((m) => m.content).join('\n');
+        return Promise.resolve({ role: 'assistant', content: `Here is what I found:\n${results}` });
+      }
+
+      const toolNames = tools.map((tool) => tool.function.name);
+      const toolCall = VALUE_QUESTION.test(lastUserMessage) && toolNames.includes('estimate_price')
+        ? { name: 'estimate_price', arguments: FAKE_ESTIMATE_ARGUMENTS }
+        : toolNames.includes('search_properties')
+          ? { name: 'search_properties', arguments: { limit: 3 } }
+          : null;
+
+      if (last?.role === 'user' && toolCall) {
+        return Promise.resolve({
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: `fake-call-${messages.length}`,
+              type: 'function',
+              function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+            },
+          ],
+        });
+      }
+
+      return Promise.resolve({
+        role: 'assistant',
+        content: `This is a placeholder response to: ${lastUserMessage.trim().slice(0, 200)}`,
+      });
+    },
+  };
+}
+
+// Returns null when no provider is configured, so callers can skip optional LLM features
+export function getLLMProvider(): LLMProvider | null {
+  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+  const providerName = Deno.env.get('LLM_PROVIDER') ?? (openAIApiKey ? 'openai' : null);
+  const model = Deno.env.get('LLM_MODEL');
+
+  switch (providerName) {
+    case null:
+      return null;
+    case 'openai':
+      return openAICompatibleProvider('OpenAI', 'https://api.openai.com/v1', openAIApiKey, model ?? DEFAULT_OPENAI_MODEL);
+    case 'openai-compatible':
+      return openAICompatibleProvider(
+        'Local LLM',
+        Deno.env.get('LLM_BASE_URL') ?? DEFAULT_LOCAL_BASE_URL,
+        Deno.env.get('LLM_API_KEY'),
+        model ?? DEFAULT_LOCAL_MODEL
+      );
+    case 'fake':
+      return fakeProvider(model ?? 'fake');
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+}
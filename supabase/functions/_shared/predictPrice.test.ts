@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { predictPrice } from './predictPrice.ts';
+import { FAKE_ESTIMATE_ARGUMENTS, getLLMProvider, LLMProvider } from './llm.ts';
+import { valuationRequestSchema } from './predictionSchema.ts';
+
+// Comparables come from the listings table; these tests run without a database
+vi.mock('./comparables.ts', () => ({
+  findComparables: vi.fn().mockResolvedValue([]),
+}));
+
+// The real provider lookup, which single tests can replace with a scripted provider
+vi.mock('./llm.ts', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./llm.ts')>();
+  return { ...actual, getLLMProvider: vi.fn(actual.getLLMProvider) };
+});
+
+const property = valuationRequestSchema.parse(FAKE_ESTIMATE_ARGUMENTS);
+
+const scriptedProvider = (...replies: string[]) => {
+  const complete = vi.fn<LLMProvider['complete']>();
+  replies.forEach((content) => complete.mockResolvedValueOnce({ role: 'assistant', content }));
+  return { name: 'scripted', model: 'test', complete } satisfies LLMProvider;
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('predictPrice with the fake LLM provider', () => {
+  it('adds a narrative that describes the model estimate', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+
+    const prediction = await predictPrice(property);
+
+    expect(prediction.estimatedPrice).toBeGreaterThan(0);
+    expect(prediction.narrative).toEqual({
+      summary: `The model estimates this property at $${prediction.estimatedPrice.toLocaleString('en-US')}.`,
+      keyDrivers: ['Location', 'Size'],
+    });
+  });
+
+  it('gives the same price with or without a narrative', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+
+    const withNarrative = await predictPrice(property);
+    const withoutNarrative = await predictPrice(property, { narrative: false });
+
+    expect(withoutNarrative.narrative).toBeNull();
+    expect(withoutNarrative.estimatedPrice).toBe(withNarrative.estimatedPrice);
+    expect(withoutNarrative.priceRange).toEqual(withNarrative.priceRange);
+  });
+
+  it('drops a narrative that is not valid JSON after the repair round', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+    vi.stubEnv('FAKE_LLM_RESPONSE', 'Sorry, I cannot help with that.');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const prediction = await predictPrice(property);
+
+    expect(prediction.narrative).toBeNull();
+    expect(prediction.estimatedPrice).toBeGreaterThan(0);
+  });
+
+  it('repairs a narrative that fails validation on the first attempt', async () => {
+    const llm = scriptedProvider(
+      '```json\n{"summary": "", "keyDrivers": []}\n```',
+      'Sure! {"summary": "Priced in line with the area.", "keyDrivers": ["Size"]}',
+    );
+    vi.mocked(getLLMProvider).mockReturnValueOnce(llm);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const prediction = await predictPrice(property);
+
+    expect(prediction.narrative).toEqual({ summary: 'Priced in line with the area.', keyDrivers: ['Size'] });
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    expect(llm.complete.mock.calls[1][0].messages.at(-1)?.content).toContain('invalid because summary:');
+  });
+
+  it('skips the narrative when no provider is configured', async () => {
+    vi.stubEnv('LLM_PROVIDER', undefined);
+    vi.stubEnv('OPENAI_API_KEY', undefined);
+
+    expect((await predictPrice(property)).narrative).toBeNull();
+  });
+
+  it('still estimates when LLM_PROVIDER names an unknown provider', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'no-such-provider');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const prediction = await predictPrice(property);
+
+    expect(prediction.narrative).toBeNull();
+    expect(prediction.estimatedPrice).toBeGreaterThan(0);
+  });
+});
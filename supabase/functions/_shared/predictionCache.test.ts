@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { hashValuationInput, normalizeValuationInput } from './predictionCache.ts';
+import { ValuationRequest, valuationRequestSchema } from './predictionSchema.ts';
+
+const request = valuationRequestSchema.parse({
+  propertyType: 'house',
+  bedrooms: 3,
+  bathrooms: 2,
+  area: 1800,
+  address: '12 Oak Street',
+  city: 'Austin',
+  state: 'TX',
+  amenities: ['Garden', 'Garage'],
+});
+
+describe('normalizeValuationInput', () => {
+  it('ignores case, surrounding spaces and amenity order', () => {
+    const variant: ValuationRequest = {
+      ...request,
+      city: ' AUSTIN ',
+      state: 'tx',
+      address: '12 oak street',
+      amenities: ['Garage', 'Garden'],
+    };
+
+    expect(normalizeValuationInput(variant)).toEqual(normalizeValuationInput(request));
+  });
+
+  it('rounds the area to whole square feet', () => {
+    expect(normalizeValuationInput({ ...request, area: 1800.4 }).area).toBe(1800);
+  });
+
+  it('treats missing optional fields as null', () => {
+    expect(normalizeValuationInput(request)).toMatchObject({
+      yearBuilt: null,
+      parkingSpaces: null,
+      latitude: null,
+      longitude: null,
+      excludeId: null,
+    });
+  });
+});
+
+describe('hashValuationInput', () => {
+  it('gives equivalent submissions the same key', async () => {
+    const variant: ValuationRequest = { ...request, city: 'austin', amenities: ['Garage', 'Garden'] };
+
+    expect(await hashValuationInput(variant, 'v1')).toBe(await hashValuationInput(request, 'v1'));
+    expect(await hashValuationInput(request, 'v1')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with anything that changes the answer', async () => {
+    const key = await hashValuationInput(request, 'v1');
+
+    expect(await hashValuationInput(request, 'v2')).not.toBe(key);
+    expect(await hashValuationInput({ ...request, bedrooms: 4 }, 'v1')).not.toBe(key);
+    expect(await hashValuationInput({ ...request, amenities: ['Garage'] }, 'v1')).not.toBe(key);
+    expect(await hashValuationInput({ ...request, excludeId: crypto.randomUUID() }, 'v1')).not.toBe(key);
+  });
+});
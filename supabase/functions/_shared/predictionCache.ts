@@ -0,0 +1,81 @@
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { PredictionResult, predictionResultSchema, ValuationRequest } from './predictionSchema.ts';
+
+const CACHE_TTL_HOURS = 24;
+
+export interface CachedPrediction {
+  prediction: PredictionResult;
+  cachedAt: string;
+}
+
+// Equivalent submissions ("Austin " vs "austin", amenities in any order) share one cache entry
+export function normalizeValuationInput(input: ValuationRequest) {
+  const text = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+
+  return {
+    propertyType: input.propertyType,
+    bedrooms: input.bedrooms,
+    bathrooms: input.bathrooms,
+    area: Math.round(input.area),
+    address: text(input.address),
+    city: text(input.city),
+    state: text(input.state),
+    zipcode: text(input.zipcode),
+    yearBuilt: input.yearBuilt ?? null,
+    parkingSpaces: input.parkingSpaces ?? null,
+    furnished: input.furnished,
+    petFriendly: input.petFriendly,
+    amenities: [...input.amenities].sort(),
+    latitude: input.latitude ?? null,
+    longitude: input.longitude ?? null,
+    excludeId: input.excludeId ?? null,
+  };
+}
+
+// Anything that changes the answer (model version, narrative provider) is part of the key
+export async function hashValuationInput(input: ValuationRequest, version: string) {
+  const payload = JSON.stringify({ version, input: normalizeValuationInput(input) });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function getCachedPrediction(inputHash: string): Promise<CachedPrediction | null> {
+  const { data, error } = await supabaseAdmin
+    .from('prediction_cache')
+    .select('prediction, created_at')
+    .eq('input_hash', inputHash)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading prediction cache:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  // Entries written by an older schema are treated as misses
+  const parsed = predictionResultSchema.safeParse(data.prediction);
+  return parsed.success ? { prediction: parsed.data, cachedAt: data.created_at } : null;
+}
+
+export async function storeCachedPrediction(
+  inputHash: string,
+  input: ValuationRequest,
+  prediction: PredictionResult,
+  version: string
+) {
+  const { error } = await supabaseAdmin
+    .from('prediction_cache')
+    .upsert({
+      input_hash: inputHash,
+      input: normalizeValuationInput(input),
+      prediction,
+      model_version: version,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + CACHE_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+
+  if (error) {
+    console.error('Error writing prediction cache:', error);
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { PredictionResult, ValuationRequest } from './predictionSchema.ts';
+
+export interface PredictionRecord {
+  userId: string;
+  input: ValuationRequest;
+  prediction: PredictionResult;
+  llmProvider: string | null;
+  cached: boolean;
+  // Estimate the user re-ran to get this one, if any
+  rerunOf?: unknown;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function defaultValuationName(input: ValuationRequest) {
+  const place = input.address ? `${input.address}, ${input.city}` : `${input.city}, ${input.state}`;
+  return `${input.bedrooms} bd ${capitalize(input.propertyType)} in ${place}`.slice(0, 120);
+}
+
+// Re-runs keep the original's name and point at the first estimate in the chain,
+// so the history can show how the value moved since it was first estimated
+async function findRerunSource(userId: string, rerunOf: unknown) {
+  const id = z.string().uuid().safeParse(rerunOf);
+  if (!id.success) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('price_predictions')
+    .select('id, source_id, name')
+    .eq('id', id.data)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading price prediction to re-run:', error);
+    return null;
+  }
+  return data ? { id: data.source_id ?? data.id, name: data.name } : null;
+}
+
+// History is a convenience, so a failed write is logged rather than failing the estimate
+export async function recordPrediction(record: PredictionRecord): Promise<string | null> {
+  const source = await findRerunSource(record.userId, record.rerunOf);
+
+  const { data, error } = await supabaseAdmin
+    .from('price_predictions')
+    .insert({
+      user_id: record.userId,
+      source_id: source?.id ?? null,
+      name: source?.name ?? defaultValuationName(record.input),
+      input: record.input,
+      prediction: record.prediction,
+      estimated_price: record.prediction.estimatedPrice,
+      model_version: record.prediction.model.version,
+      llm_provider: record.llmProvider,
+      cached: record.cached,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error saving price prediction:', error);
+    return null;
+  }
+  return data.id;
+}
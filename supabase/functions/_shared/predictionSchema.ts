@@ -0,0 +1,240 @@
+import { z } from 'zod';
+
+// Shared by the predict-price function and PricePrediction.tsx (via src/lib/predictionSchema.ts),
+// so the page never renders a response the function wouldn't have produced.
+// Bare `zod` resolves through supabase/functions/import_map.json in Deno and node_modules in Vite.
+
+export const PROPERTY_TYPES = ['apartment', 'house', 'villa', 'penthouse', 'studio'] as const;
+
+export const AMENITIES = [
+  'Swimming Pool', 'Gym', 'Parking', 'Security', 'Elevator', 'Balcony',
+  'Garden', 'Garage', 'Fireplace', 'Walk-in Closet', 'Laundry',
+  'Air Conditioning', 'Heating', 'Hardwood Floors', 'Updated Kitchen'
+] as const;
+
+// Free text ends up in LLM prompts, so keep only characters real addresses use
+export const sanitizeText = (value: string) =>
+  value
+    .normalize('NFKC')
+    .replace(/[\p{Cc}\p{Cf}]/gu, ' ')
+    .replace(/[^\p{L}\p{N} .,'#&/-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const textField = (label: string, max: number, required: boolean) =>
+  z
+    .string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .max(max * 4, `${label} is too long`)
+    .transform(sanitizeText)
+    .pipe(
+      required
+        ? z.string().min(1, `${label} is required`).max(max, `${label} must be at most ${max} characters`)
+        : z.string().max(max, `${label} must be at most ${max} characters`)
+    );
+
+// Form inputs arrive as strings; '' means "not provided"
+const toNumberInput = (value: unknown) =>
+  value === '' || value === null ? undefined : typeof value === 'string' ? Number(value) : value;
+
+const numberField = (label: string, min: number, max: number, step?: number) => {
+  let field = z
+    .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be at most ${max}`);
+  if (step) field = field.multipleOf(step, `${label} must be in steps of ${step}`);
+  return field;
+};
+
+const requiredNumber = (label: string, min: number, max: number, step?: number) =>
+  z.preprocess(toNumberInput, numberField(label, min, max, step));
+
+const optionalNumber = (label: string, min: number, max: number, step?: number) =>
+  z.preprocess(toNumberInput, numberField(label, min, max, step).optional());
+
+export const valuationRequestSchema = z.object({
+  propertyType: z.enum(PROPERTY_TYPES, {
+    errorMap: () => ({ message: 'Choose a property type' }),
+  }),
+  bedrooms: requiredNumber('Bedrooms', 0, 20, 1),
+  bathrooms: requiredNumber('Bathrooms', 0.5, 20, 0.5),
+  area: requiredNumber('Area', 100, 100000),
+  address: textField('Address', 200, false).optional().default(''),
+  city: textField('City', 80, true),
+  state: textField('State', 40, true),
+  zipcode: z
+    .string()
+    .trim()
+    .regex(/^(\d{5}(-\d{4})?)?$/, 'Enter a 5-digit ZIP code')
+    .optional()
+    .default(''),
+  yearBuilt: optionalNumber('Year built', 1800, new Date().getFullYear() + 2, 1),
+  parkingSpaces: optionalNumber('Parking spaces', 0, 20, 1),
+  furnished: z.boolean({ invalid_type_error: 'Furnished must be yes or no' }).optional().default(false),
+  petFriendly: z.boolean({ invalid_type_error: 'Pet friendly must be yes or no' }).optional().default(false),
+  amenities: z
+    .array(z.enum(AMENITIES, { errorMap: () => ({ message: 'Unknown amenity' }) }), {
+      invalid_type_error: 'Amenities must be a list',
+    })
+    .max(AMENITIES.length)
+    .optional()
+    .default([])
+    .transform((amenities) => [...new Set(amenities)]),
+  latitude: optionalNumber('Latitude', -90, 90),
+  longitude: optionalNumber('Longitude', -180, 180),
+  // The listing being valued, which must not count as its own comparable
+  excludeId: z.preprocess(
+    (value) => (value === '' || value === null ? undefined : value),
+    z.string().uuid('Unknown listing').optional()
+  ),
+});
+
+export type ValuationRequest = z.output<typeof valuationRequestSchema>;
+export type ValuationRequestErrors = Partial<Record<keyof ValuationRequest, string[]>>;
+
+// Rent mode takes the same property details plus the terms of the lease
+export const rentRequestSchema = valuationRequestSchema.extend({
+  leaseTermMonths: requiredNumber('Lease term', 1, 36, 1),
+  utilitiesIncluded: z.boolean().optional().default(false),
+});
+
+export type RentRequest = z.output<typeof rentRequestSchema>;
+export type RentRequestErrors = Partial<Record<keyof RentRequest, string[]>>;
+
+const clamp = (min: number, max: number) => (value: number) => Math.min(max, Math.max(min, value));
+
+const score = z.coerce.number().catch(50).transform(clamp(0, 100)).transform(Math.round);
+const price = z.coerce.number().finite().nonnegative();
+const rangeSchema = z.object({ min: price, max: price });
+
+// Keep a range ordered and always containing its estimate
+const orderedRange = (range: z.infer<typeof rangeSchema>, estimate: number) => ({
+  min: Math.min(range.min, range.max, estimate),
+  max: Math.max(range.min, range.max, estimate),
+});
+
+export const factorsSchema = z.object({
+  location: score,
+  size: score,
+  bedrooms: score,
+  bathrooms: score,
+  amenities: score,
+  market: score,
+});
+
+export const CONTRIBUTION_FEATURES = [
+  'location',
+  'size',
+  'propertyType',
+  'bedrooms',
+  'bathrooms',
+  'age',
+  'parking',
+  'furnished',
+  'petFriendly',
+  'amenities',
+] as const;
+
+// Signed dollar effect of each feature, added in order onto the reference home's price
+export const contributionsSchema = z.object({
+  baseline: price,
+  items: z.array(
+    z.object({
+      feature: z.enum(CONTRIBUTION_FEATURES),
+      amount: z.coerce.number().finite(),
+    }),
+  ),
+});
+
+export const comparableSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  price,
+  city: z.string(),
+  state: z.string(),
+  bedrooms: z.coerce.number(),
+  bathrooms: z.coerce.number(),
+  areaSqft: z.coerce.number(),
+  status: z.string().nullable().catch(null),
+  distanceMiles: z.coerce.number().nonnegative().nullable().catch(null),
+  similarity: score,
+});
+
+export const rentalComparableSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  monthlyRent: price,
+  city: z.string(),
+  state: z.string(),
+  bedrooms: z.coerce.number(),
+  bathrooms: z.coerce.number(),
+  areaSqft: z.coerce.number(),
+  leaseTermMonths: z.coerce.number().int().positive(),
+  utilitiesIncluded: z.boolean().catch(false),
+  distanceMiles: z.coerce.number().nonnegative().nullable().catch(null),
+  similarity: score,
+});
+
+const modelSchema = z.object({
+  version: z.string(),
+  trainedAt: z.string(),
+  sampleSize: z.coerce.number().int().nonnegative(),
+});
+
+export const narrativeSchema = z.object({
+  summary: z.string().trim().min(1).max(800),
+  keyDrivers: z.array(z.string().trim().min(1).max(200)).max(5).catch([]),
+});
+
+export const predictionResultSchema = z
+  .object({
+    estimatedPrice: price.positive(),
+    priceRange: rangeSchema,
+    intervalLevel: z.coerce.number().catch(90).transform(clamp(50, 99)),
+    confidence: z.coerce.number().catch(0).transform(clamp(0, 100)).transform(Math.round),
+    factors: factorsSchema,
+    // Missing from estimates saved before the breakdown existed
+    contributions: contributionsSchema.nullable().catch(null),
+    comparableProperties: z.array(comparableSchema).catch([]),
+    model: modelSchema,
+    narrative: narrativeSchema.nullable().catch(null),
+  })
+  .transform((prediction) => ({
+    ...prediction,
+    priceRange: orderedRange(prediction.priceRange, prediction.estimatedPrice),
+  }));
+
+export const rentPredictionResultSchema = z
+  .object({
+    monthlyRent: price.positive(),
+    rentRange: rangeSchema,
+    intervalLevel: z.coerce.number().catch(90).transform(clamp(50, 99)),
+    confidence: z.coerce.number().catch(0).transform(clamp(0, 100)).transform(Math.round),
+    // Annual rent as a percentage of the sale estimate
+    grossYield: z.coerce.number().nonnegative(),
+    saleEstimate: price.positive(),
+    comparableRentals: z.array(rentalComparableSchema).catch([]),
+    // Rental listings the yield was calibrated on
+    rentalSampleSize: z.coerce.number().int().nonnegative(),
+    model: modelSchema,
+  })
+  .transform((prediction) => ({
+    ...prediction,
+    rentRange: orderedRange(prediction.rentRange, prediction.monthlyRent),
+  }));
+
+export type PredictionResult = z.infer<typeof predictionResultSchema>;
+export type RentPredictionResult = z.infer<typeof rentPredictionResultSchema>;
+export type Contributions = z.infer<typeof contributionsSchema>;
+export type ContributionFeature = (typeof CONTRIBUTION_FEATURES)[number];
+export type Comparable = z.infer<typeof comparableSchema>;
+export type RentalComparable = z.infer<typeof rentalComparableSchema>;
+export type Narrative = z.infer<typeof narrativeSchema>;
+
+// Models often wrap JSON in ```json fences or add a sentence around it
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body;
+}
@@ -0,0 +1,72 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+export interface Quota {
+  allowed: boolean;
+  dailyLimit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+  signedIn: boolean;
+  userId: string | null;
+}
+
+// The edge gateway appends the client address to x-forwarded-for. Earlier entries come from
+// the request itself and can be anything, so only the last one identifies the caller.
+export function getClientIp(req: Request) {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim();
+  return forwarded || req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip') || 'unknown';
+}
+
+// Signed-out callers still send the anon key as a bearer token; that resolves to no user
+export async function getRequestUserId(req: Request) {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id ?? null;
+}
+
+// Shared by both quotas; the database functions return the same columns
+function toQuota(data: unknown, userId: string | null): Quota {
+  const row = data as { allowed: boolean; daily_limit: number; remaining: number; retry_after_seconds: number };
+  return {
+    allowed: row.allowed,
+    dailyLimit: row.daily_limit,
+    remaining: row.remaining,
+    retryAfterSeconds: row.retry_after_seconds,
+    signedIn: userId !== null,
+    userId,
+  };
+}
+
+export async function checkPredictionQuota(req: Request, { consume }: { consume: boolean }): Promise<Quota> {
+  const userId = await getRequestUserId(req);
+
+  // consume_prediction_quota is not callable by clients, so usage can't be forged or burned for others
+  const { data, error } = await supabaseAdmin
+    .rpc('consume_prediction_quota', {
+      p_user_id: userId,
+      p_ip_address: getClientIp(req),
+      p_consume: consume,
+    })
+    .single();
+  if (error) throw error;
+
+  return toQuota(data, userId);
+}
+
+// Chat needs a signed-in user, so its quota is per user only. Every check records a message.
+export async function consumeChatQuota(userId: string): Promise<Quota> {
+  const { data, error } = await supabaseAdmin
+    .rpc('consume_chat_quota', { p_user_id: userId })
+    .single();
+  if (error) throw error;
+
+  return toQuota(data, userId);
+}
@@ -0,0 +1,152 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { INTERVAL_Z, predictWithModel, Valuation, ValuationModel } from './valuationModel.ts';
+import { rankBySimilarity, SimilarityCandidate } from './comparables.ts';
+import { RentalComparable, RentRequest } from './predictionSchema.ts';
+
+// Rental listings are publicly readable, so the anon key is enough
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_ANON_KEY')!
+);
+
+const CANDIDATE_LIMIT = 300;
+
+// Rent is estimated as a gross yield on the sale estimate. The yield starts from a
+// typical US figure and moves towards what rentals in the same state actually achieve,
+// each rental counting as one observation (two in the same city) against PRIOR_WEIGHT.
+const PRIOR_GROSS_YIELD = 0.06;
+const PRIOR_LOG_YIELD_SD = 0.25;
+const PRIOR_WEIGHT = 5;
+const SAME_CITY_WEIGHT = 2;
+
+export interface RentEstimate {
+  monthlyRent: number;
+  rentRange: { min: number; max: number };
+  intervalLevel: number;
+  confidence: number;
+  grossYield: number;
+  saleEstimate: number;
+  comparableRentals: RentalComparable[];
+  rentalSampleSize: number;
+}
+
+interface RentalCandidate extends SimilarityCandidate {
+  id: string;
+  title: string;
+  monthly_rent: number;
+  lease_term_months: number;
+  utilities_included: boolean;
+  state: string;
+  parking_spaces: number | null;
+  furnished: boolean | null;
+  pet_friendly: boolean | null;
+}
+
+// Log rent premium over a 12-month lease without utilities: short lets and bundled bills cost more
+function leaseTermsAdjustment(leaseTermMonths: number, utilitiesIncluded: boolean) {
+  const lease = leaseTermMonths < 6 ? 0.12 : leaseTermMonths < 12 ? 0.05 : leaseTermMonths > 12 ? -0.02 : 0;
+  return lease + (utilitiesIncluded ? 0.08 : 0);
+}
+
+const normalise = (value: string) => value.trim().toLowerCase();
+const roundRent = (rent: number) => Math.round(rent / 10) * 10;
+
+async function fetchRentals(state: string) {
+  const { data, error } = await supabase
+    .from('rental_listings')
+    .select('id, title, monthly_rent, lease_term_months, utilities_included, property_type, bedrooms, bathrooms, area_sqft, city, state, year_built, amenities, latitude, longitude, parking_spaces, furnished, pet_friendly')
+    .ilike('state', state.trim())
+    .limit(CANDIDATE_LIMIT);
+
+  if (error) throw error;
+  return (data ?? []) as RentalCandidate[];
+}
+
+export async function estimateRent(
+  model: ValuationModel,
+  request: RentRequest,
+  sale: Valuation,
+  comparableLimit = 3
+): Promise<RentEstimate> {
+  let rentals: RentalCandidate[] = [];
+  try {
+    rentals = await fetchRentals(request.state);
+  } catch (error) {
+    // Without local rentals the estimate falls back to the prior yield
+    console.error('Error fetching rental listings:', error);
+  }
+
+  // Each rental's yield is measured against what the sale model says it's worth,
+  // normalised to a 12-month lease without utilities
+  const observations = rentals.map((rental) => {
+    const value = predictWithModel(model, {
+      propertyType: rental.property_type,
+      bedrooms: rental.bedrooms,
+      bathrooms: Number(rental.bathrooms),
+      area: rental.area_sqft,
+      city: rental.city,
+      state: rental.state,
+      yearBuilt: rental.year_built,
+      parkingSpaces: rental.parking_spaces,
+      furnished: rental.furnished,
+      petFriendly: rental.pet_friendly,
+      amenities: Array.isArray(rental.amenities) ? rental.amenities.map(String) : [],
+    }).estimatedPrice;
+
+    return {
+      logYield: Math.log((12 * Number(rental.monthly_rent)) / value) -
+        leaseTermsAdjustment(rental.lease_term_months, rental.utilities_included),
+      weight: normalise(rental.city) === normalise(request.city) ? SAME_CITY_WEIGHT : 1,
+    };
+  });
+
+  const totalWeight = PRIOR_WEIGHT + observations.reduce((sum, o) => sum + o.weight, 0);
+  const meanLogYield = (
+    PRIOR_WEIGHT * Math.log(PRIOR_GROSS_YIELD) +
+    observations.reduce((sum, o) => sum + o.weight * o.logYield, 0)
+  ) / totalWeight;
+  const yieldVariance = (
+    PRIOR_WEIGHT * PRIOR_LOG_YIELD_SD ** 2 +
+    observations.reduce((sum, o) => sum + o.weight * (o.logYield - meanLogYield) ** 2, 0)
+  ) / totalWeight;
+
+  // The sale interval is symmetric in log space, so its width gives back the sale uncertainty
+  const saleLogSd = Math.log(sale.priceRange.max / Math.max(sale.priceRange.min, 1)) / (2 * INTERVAL_Z);
+  const sd = Math.sqrt(saleLogSd ** 2 + yieldVariance + yieldVariance / totalWeight);
+
+  const logRent = Math.log(sale.estimatedPrice / 12) + meanLogYield +
+    leaseTermsAdjustment(request.leaseTermMonths, request.utilitiesIncluded);
+
+  const monthlyRent = roundRent(Math.exp(logRent));
+  const min = roundRent(Math.exp(logRent - INTERVAL_Z * sd));
+  const max = roundRent(Math.exp(logRent + INTERVAL_Z * sd));
+  const halfWidth = (max - min) / 2 / Math.max(monthlyRent, 1);
+
+  const comparableRentals = rankBySimilarity(request, rentals)
+    .slice(0, comparableLimit)
+    .map(({ candidate, distanceMiles, similarity }) => ({
+      id: candidate.id,
+      title: candidate.title,
+      monthlyRent: Number(candidate.monthly_rent),
+      city: candidate.city,
+      state: candidate.state,
+      bedrooms: candidate.bedrooms,
+      bathrooms: Number(candidate.bathrooms),
+      areaSqft: candidate.area_sqft,
+      leaseTermMonths: candidate.lease_term_months,
+      utilitiesIncluded: candidate.utilities_included,
+      distanceMiles,
+      similarity,
+    }));
+
+  return {
+    monthlyRent,
+    rentRange: { min, max },
+    intervalLevel: 90,
+    confidence: Math.max(0, Math.min(99, Math.round(100 * (1 - halfWidth)))),
+    grossYield: Math.round(((1200 * monthlyRent) / sale.estimatedPrice) * 100) / 100,
+    saleEstimate: sale.estimatedPrice,
+    comparableRentals,
+    rentalSampleSize: rentals.length,
+  };
+}
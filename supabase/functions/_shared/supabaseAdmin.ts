@@ -0,0 +1,7 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Service-role client for tables and functions that clients can't touch directly
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
@@ -0,0 +1,130 @@
+import { BASE_FEATURES, cityKey, encodeFeatures, stateKey, ValuationInput, ValuationModel } from './valuationModel.ts';
+
+export interface TrainingRow extends ValuationInput {
+  price: number;
+}
+
+// Gaussian priors on each coefficient as [mean, standard deviation]. With little
+// data the fit stays close to these; as listings accumulate the data takes over.
+const PRIORS: Record<(typeof BASE_FEATURES)[number], [number, number]> = {
+  intercept: [Math.log(250_000), 1.0],
+  log_area: [1.0, 0.3],
+  'type:apartment': [Math.log(0.8), 0.5],
+  'type:villa': [Math.log(1.6), 0.5],
+  'type:penthouse': [Math.log(2.0), 0.5],
+  'type:studio': [Math.log(1.2), 0.5],
+  bedrooms: [0.03, 0.1],
+  bathrooms: [0.05, 0.1],
+  age_decades: [-0.03, 0.1],
+  year_built_missing: [0, 0.2],
+  parking_spaces: [0.02, 0.1],
+  furnished: [0.03, 0.1],
+  pet_friendly: [0.01, 0.1],
+  amenity_count: [0.03, 0.1],
+};
+
+const TAU_CITY = 0.4;
+const TAU_STATE = 0.5;
+
+// Prior on the residual spread: roughly a 35% typical error, worth four observations
+const PRIOR_SIGMA = 0.35;
+const PRIOR_SIGMA_WEIGHT = 4;
+
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Valuation model design matrix is singular');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const divisor = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col || a[row][col] === 0) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map((row) => row.slice(n));
+}
+
+const round = (value: number) => Number(value.toPrecision(6));
+
+// Bayesian linear regression on log(price) with the priors above
+export function trainValuationModel(rows: TrainingRow[], referenceYear = new Date().getFullYear()): ValuationModel {
+  const usable = rows.filter((row) => row.price > 0 && row.area > 0);
+  if (usable.length === 0) {
+    throw new Error('No usable properties to train the valuation model on');
+  }
+
+  const cityCounts: Record<string, number> = {};
+  const states = new Set<string>();
+  for (const row of usable) {
+    const key = cityKey(row.city, row.state);
+    cityCounts[key] = (cityCounts[key] ?? 0) + 1;
+    states.add(stateKey(row.state));
+  }
+
+  const features = [...BASE_FEATURES, ...[...states].sort(), ...Object.keys(cityCounts).sort()];
+  const priorMean = features.map((name) => (name in PRIORS ? PRIORS[name as keyof typeof PRIORS][0] : 0));
+  const priorPrecision = features.map((name) => {
+    const sd = name in PRIORS
+      ? PRIORS[name as keyof typeof PRIORS][1]
+      : name.startsWith('city:') ? TAU_CITY : TAU_STATE;
+    return 1 / sd ** 2;
+  });
+
+  const X = usable.map((row) => {
+    const encoded = encodeFeatures(row, referenceYear);
+    return features.map((name) => encoded[name] ?? 0);
+  });
+  const y = usable.map((row) => Math.log(row.price));
+  const p = features.length;
+
+  const xtx = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => X.reduce((sum, x) => sum + x[i] * x[j], 0))
+  );
+  const xty = Array.from({ length: p }, (_, i) => X.reduce((sum, x, n) => sum + x[i] * y[n], 0));
+
+  // Alternate between the coefficient posterior and the residual variance until they settle
+  let sigma2 = PRIOR_SIGMA ** 2;
+  let coefficients = priorMean;
+  let covariance: number[][] = [];
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const precision = xtx.map((row, i) => row.map((value, j) => value / sigma2 + (i === j ? priorPrecision[i] : 0)));
+    covariance = invert(precision);
+    const rhs = xty.map((value, i) => value / sigma2 + priorPrecision[i] * priorMean[i]);
+    coefficients = covariance.map((row) => row.reduce((sum, value, j) => sum + value * rhs[j], 0));
+
+    const ssr = X.reduce((sum, x, n) => {
+      const residual = y[n] - x.reduce((acc, value, i) => acc + value * coefficients[i], 0);
+      return sum + residual ** 2;
+    }, 0);
+    const next = (PRIOR_SIGMA_WEIGHT * PRIOR_SIGMA ** 2 + ssr) / (PRIOR_SIGMA_WEIGHT + usable.length);
+    if (Math.abs(next - sigma2) < 1e-9) break;
+    sigma2 = next;
+  }
+
+  return {
+    version: `hedonic-${referenceYear}.${usable.length}`,
+    trainedAt: new Date().toISOString(),
+    sampleSize: usable.length,
+    referenceYear,
+    sigma: round(Math.sqrt(sigma2)),
+    tauCity: TAU_CITY,
+    tauState: TAU_STATE,
+    features,
+    coefficients: coefficients.map(round),
+    covariance: covariance.map((row) => row.map(round)),
+    cityCounts,
+  };
+}
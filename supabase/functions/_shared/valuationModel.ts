@@ -0,0 +1,253 @@
+// Hedonic regression on log(price). Coefficients are fitted offline by
+// scripts/train-valuation-model.ts and shipped as valuation-model.json, so a
+// valuation needs no network access and always gives the same answer for the same input.
+
+export interface ValuationInput {
+  propertyType: string;
+  bedrooms: number;
+  bathrooms: number;
+  area: number;
+  city: string;
+  state: string;
+  yearBuilt?: number | null;
+  parkingSpaces?: number | null;
+  furnished?: boolean | null;
+  petFriendly?: boolean | null;
+  amenities: string[];
+}
+
+export interface ValuationModel {
+  version: string;
+  trainedAt: string;
+  sampleSize: number;
+  referenceYear: number;
+  // Residual standard deviation of log(price)
+  sigma: number;
+  // Prior standard deviations of the location effects, used when a city or state was never seen
+  tauCity: number;
+  tauState: number;
+  features: string[];
+  coefficients: number[];
+  // Posterior covariance of the coefficients, same order as `features`
+  covariance: number[][];
+  cityCounts: Record<string, number>;
+  // Where the training rows came from: this database's listings or a CSV of sales
+  trainedOn?: 'database' | 'csv';
+}
+
+export interface Valuation {
+  estimatedPrice: number;
+  priceRange: { min: number; max: number };
+  intervalLevel: number;
+  confidence: number;
+  factors: {
+    location: number;
+    size: number;
+    bedrooms: number;
+    bathrooms: number;
+    amenities: number;
+    market: number;
+  };
+  contributions: ValuationContributions;
+}
+
+export type ContributionFeature =
+  | 'location'
+  | 'size'
+  | 'propertyType'
+  | 'bedrooms'
+  | 'bathrooms'
+  | 'age'
+  | 'parking'
+  | 'furnished'
+  | 'petFriendly'
+  | 'amenities';
+
+// Dollar waterfall from the reference home to the estimate; the amounts sum to
+// estimatedPrice - baseline exactly
+export interface ValuationContributions {
+  baseline: number;
+  items: { feature: ContributionFeature; amount: number }[];
+}
+
+export const BASE_FEATURES = [
+  'intercept',
+  'log_area',
+  'type:apartment',
+  'type:villa',
+  'type:penthouse',
+  'type:studio',
+  'bedrooms',
+  'bathrooms',
+  'age_decades',
+  'year_built_missing',
+  'parking_spaces',
+  'furnished',
+  'pet_friendly',
+  'amenity_count',
+] as const;
+
+// Reference home the features are centred on: a 1,000 sq ft, 2 bed, 2 bath house
+const REFERENCE_AREA = 1000;
+const REFERENCE_ROOMS = 2;
+
+// z-score for a two-sided 90% interval
+export const INTERVAL_Z = 1.645;
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+export const cityKey = (city: string, state: string) => `city:${normalise(city)}|${normalise(state)}`;
+export const stateKey = (state: string) => `state:${normalise(state)}`;
+
+// Sparse encoding of a property; location indicators only appear when the model knows them
+export function encodeFeatures(input: ValuationInput, referenceYear: number): Record<string, number> {
+  const area = Math.max(input.area, 100);
+  const age = input.yearBuilt ? Math.max(referenceYear - input.yearBuilt, 0) : 0;
+
+  const features: Record<string, number> = {
+    intercept: 1,
+    log_area: Math.log(area / REFERENCE_AREA),
+    bedrooms: input.bedrooms - REFERENCE_ROOMS,
+    bathrooms: input.bathrooms - REFERENCE_ROOMS,
+    age_decades: age / 10,
+    year_built_missing: input.yearBuilt ? 0 : 1,
+    parking_spaces: Math.min(input.parkingSpaces ?? 0, 4),
+    furnished: input.furnished ? 1 : 0,
+    pet_friendly: input.petFriendly ? 1 : 0,
+    amenity_count: Math.min(input.amenities.length, 15) / 5,
+  };
+
+  const typeFeature = `type:${normalise(input.propertyType)}`;
+  if ((BASE_FEATURES as readonly string[]).includes(typeFeature)) {
+    features[typeFeature] = 1;
+  }
+
+  features[cityKey(input.city, input.state)] = 1;
+  features[stateKey(input.state)] = 1;
+
+  return features;
+}
+
+// Maps a log-price contribution onto a 0-100 score where 50 is the reference home
+const toScore = (contribution: number) => Math.round(50 + 50 * Math.tanh(contribution / 0.5));
+
+const roundPrice = (price: number) => Math.round(price / 1000) * 1000;
+
+// Model features behind each contribution, in the order they are added onto the baseline.
+// Effects multiply in log space, so a feature's dollar amount depends on what came before
+// it; a fixed order keeps the breakdown stable between runs.
+const CONTRIBUTION_GROUPS: [ContributionFeature, (city: string, state: string) => string[]][] = [
+  ['location', (city, state) => [city, state]],
+  ['size', () => ['log_area']],
+  ['propertyType', () => BASE_FEATURES.filter((name) => name.startsWith('type:'))],
+  ['bedrooms', () => ['bedrooms']],
+  ['bathrooms', () => ['bathrooms']],
+  ['age', () => ['age_decades', 'year_built_missing']],
+  ['parking', () => ['parking_spaces']],
+  ['furnished', () => ['furnished']],
+  ['petFriendly', () => ['pet_friendly']],
+  ['amenities', () => ['amenity_count']],
+];
+
+function contributionWaterfall(
+  contribution: (names: string[]) => number,
+  city: string,
+  state: string,
+  estimatedPrice: number,
+): ValuationContributions {
+  const toDollars = (logPrice: number) => Math.round(Math.exp(logPrice) / 100) * 100;
+
+  let logPrice = contribution(['intercept']);
+  const baseline = toDollars(logPrice);
+  let previous = baseline;
+
+  const items = CONTRIBUTION_GROUPS.map(([feature, names], i) => {
+    logPrice += contribution(names(city, state));
+    // The last step lands on the rounded estimate so the waterfall adds up
+    const cumulative = i === CONTRIBUTION_GROUPS.length - 1 ? estimatedPrice : toDollars(logPrice);
+    const amount = cumulative - previous;
+    previous = cumulative;
+    return { feature, amount };
+  });
+
+  return { baseline, items };
+}
+
+export function predictWithModel(model: ValuationModel, input: ValuationInput): Valuation {
+  const encoded = encodeFeatures(input, model.referenceYear);
+  const x = model.features.map((name) => encoded[name] ?? 0);
+
+  const contribution = (names: string[]) =>
+    names.reduce((sum, name) => {
+      const index = model.features.indexOf(name);
+      return index === -1 ? sum : sum + model.coefficients[index] * (encoded[name] ?? 0);
+    }, 0);
+
+  const mean = x.reduce((sum, value, i) => sum + value * model.coefficients[i], 0);
+
+  // Predictive variance = noise + parameter uncertainty (+ prior spread for unseen locations)
+  let variance = model.sigma ** 2;
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] === 0) continue;
+    for (let j = 0; j < x.length; j++) {
+      variance += x[i] * model.covariance[i][j] * x[j];
+    }
+  }
+
+  const city = cityKey(input.city, input.state);
+  const state = stateKey(input.state);
+  const knownCity = model.features.includes(city);
+  if (!knownCity) variance += model.tauCity ** 2;
+  if (!model.features.includes(state)) variance += model.tauState ** 2;
+
+  const sd = Math.sqrt(variance);
+  const estimatedPrice = roundPrice(Math.exp(mean));
+  const min = roundPrice(Math.exp(mean - INTERVAL_Z * sd));
+  const max = roundPrice(Math.exp(mean + INTERVAL_Z * sd));
+
+  // Tighter intervals mean higher confidence: 100 minus the interval's half-width as a % of the estimate
+  const halfWidth = (max - min) / 2 / Math.max(estimatedPrice, 1);
+  const confidence = Math.max(0, Math.min(99, Math.round(100 * (1 - halfWidth))));
+
+  const citySamples = model.cityCounts[city] ?? 0;
+
+  return {
+    estimatedPrice,
+    priceRange: { min, max },
+    intervalLevel: 90,
+    confidence,
+    factors: {
+      location: toScore(contribution([city, state])),
+      size: toScore(contribution(['log_area'])),
+      bedrooms: toScore(contribution(['bedrooms'])),
+      bathrooms: toScore(contribution(['bathrooms'])),
+      amenities: toScore(contribution(['amenity_count', 'parking_spaces', 'furnished', 'pet_friendly'])),
+      // How much local sales data backs the estimate
+      market: Math.round((100 * citySamples) / (citySamples + 5)),
+    },
+    contributions: contributionWaterfall(contribution, city, state, estimatedPrice),
+  };
+}
+
+// Estimate for a property the model was trained on, as if its sale had been left out of the
+// fit. Dropping one row from a Bayesian linear regression has a closed form: the fitted log
+// price moves away from the row's own price by residual * h / (1 - h), where h is the row's
+// leverage. `trainingPrice` is the price the row had when the model was trained.
+export function holdoutEstimate(model: ValuationModel, input: ValuationInput, trainingPrice: number): number {
+  const encoded = encodeFeatures(input, model.referenceYear);
+  const x = model.features.map((name) => encoded[name] ?? 0);
+  const mean = x.reduce((sum, value, i) => sum + value * model.coefficients[i], 0);
+
+  let leverage = 0;
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] === 0) continue;
+    for (let j = 0; j < x.length; j++) {
+      leverage += x[i] * model.covariance[i][j] * x[j];
+    }
+  }
+  // Rounded coefficients can push a lone observation's leverage to 1
+  leverage = Math.min(leverage / model.sigma ** 2, 0.95);
+
+  const residual = Math.log(trainingPrice) - mean;
+  return roundPrice(Math.exp(mean - (residual * leverage) / (1 - leverage)));
+}
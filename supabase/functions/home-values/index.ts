@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { z } from "zod";
+import { corsHeaders } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { getRequestUserId } from "../_shared/rateLimit.ts";
+import { revalueDueHomes, revalueHome } from "../_shared/homeValues.ts";
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    }
+  });
+
+// Two callers: the daily cron job (service role) revalues every home that is due;
+// an owner can revalue one of their homes right away. That is free: it only runs the local
+// model, and at most once per model version, so tracking a home doesn't use an estimate.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+
+    if (body?.scheduled === true) {
+      if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return jsonResponse({ error: 'Scheduled runs require the service role' }, 403);
+      }
+
+      const result = await revalueDueHomes();
+      console.log(`Revalued ${result.valued} of ${result.due} tracked homes`);
+      return jsonResponse(result);
+    }
+
+    const homeId = z.string().uuid().safeParse(body?.homeId);
+    if (!homeId.success) {
+      return jsonResponse({ error: 'homeId must be a tracked home id' }, 400);
+    }
+
+    const userId = await getRequestUserId(req);
+    if (!userId) {
+      return jsonResponse({ error: 'Sign in to track a home' }, 401);
+    }
+
+    const { data: home, error } = await supabaseAdmin
+      .from('tracked_homes')
+      .select('id, input')
+      .eq('id', homeId.data)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!home) {
+      return jsonResponse({ error: 'Tracked home not found' }, 404);
+    }
+
+    const estimatedPrice = await revalueHome(home);
+    if (estimatedPrice === null) {
+      return jsonResponse({ error: 'This home could not be valued; check its details' }, 422);
+    }
+
+    return jsonResponse({ estimatedPrice });
+  } catch (error) {
+    console.error('Error in home-values function:', error);
+    return jsonResponse({ error: 'Failed to update home value', message: error.message }, 500);
+  }
+});
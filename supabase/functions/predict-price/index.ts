@@ -1,12 +1,51 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  getNarrativeProvider,
+  PREDICTION_FORMAT_VERSION,
+  predictPrice,
+  predictRent,
+  VALUATION_MODEL_VERSION,
+} from "../_shared/predictPrice.ts";
+import { rentRequestSchema, valuationRequestSchema } from "../_shared/predictionSchema.ts";
+import { checkPredictionQuota, Quota } from "../_shared/rateLimit.ts";
+import { getCachedPrediction, hashValuationInput, storeCachedPrediction } from "../_shared/predictionCache.ts";
+import { recordPrediction } from "../_shared/predictionHistory.ts";
+
+const toQuotaBody = ({ dailyLimit, remaining, signedIn }: Quota) => ({ dailyLimit, remaining, signedIn });
+
+const invalidInputResponse = (fieldErrors: Record<string, string[] | undefined>) =>
+  new Response(
+    JSON.stringify({
+      error: 'Invalid property data',
+      fieldErrors,
+    }),
+    {
+      status: 400,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+const rateLimitedResponse = (quota: Quota) =>
+  new Response(
+    JSON.stringify({
+      error: quota.remaining === 0 ? 'Daily estimate limit reached' : 'Too many requests',
+      retryAfter: quota.retryAfterSeconds,
+      quota: toQuotaBody(quota),
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Retry-After': String(quota.retryAfterSeconds)
+      }
+    }
+  );
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -15,148 +54,121 @@ serve(async (req) => {
   }
 
   try {
-    const propertyData = await req.json();
-    
-    console.log('Received property data:', propertyData);
-
-    // Create a detailed prompt for the AI model
-    const prompt = `
-You are a real estate price prediction AI expert. Analyze the following property data and provide an accurate price estimate.
-
-Property Details:
-- Type: ${propertyData.propertyType}
-- Bedrooms: ${propertyData.bedrooms}
-- Bathrooms: ${propertyData.bathrooms}
-- Area: ${propertyData.area} sq ft
-- Location: ${propertyData.city}, ${propertyData.state}
-- ZIP Code: ${propertyData.zipcode || 'Not provided'}
-- Year Built: ${propertyData.yearBuilt || 'Not provided'}
-- Parking Spaces: ${propertyData.parkingSpaces || 'Not provided'}
-- Furnished: ${propertyData.furnished ? 'Yes' : 'No'}
-- Pet Friendly: ${propertyData.petFriendly ? 'Yes' : 'No'}
-- Amenities: ${propertyData.amenities.join(', ') || 'None specified'}
-
-Based on current market data and property analysis, provide:
-
-1. Estimated market value (realistic price for current market)
-2. Price range (min and max)
-3. Confidence percentage (based on data completeness and market conditions)
-4. Factor scores (0-100) for: location, size, bedrooms, bathrooms, amenities, market
-5. 3 comparable properties with prices, distances, and similarity percentages
-
-Respond in JSON format only:
-{
-  "estimatedPrice": number,
-  "priceRange": {
-    "min": number,
-    "max": number
-  },
-  "confidence": number (70-95),
-  "factors": {
-    "location": number (0-100),
-    "size": number (0-100),
-    "bedrooms": number (0-100),
-    "bathrooms": number (0-100),
-    "amenities": number (0-100),
-    "market": number (0-100)
-  },
-  "comparableProperties": [
-    {
-      "price": number,
-      "distance": "X.X miles",
-      "similarity": number (75-95)
+    // GET reports the caller's remaining estimates without using one
+    if (req.method === 'GET') {
+      const quota = await checkPredictionQuota(req, { consume: false });
+      return new Response(
+        JSON.stringify({ quota: toQuotaBody(quota) }),
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
     }
-  ]
-}
 
-Consider current market trends, location desirability, property features, and recent sales data for similar properties.
-`;
+    const body = await req.json().catch(() => null);
 
-    console.log('Calling OpenAI API...');
+    // Rent mode needs no LLM, so it is neither cached nor kept in the valuation history
+    if (body?.mode === 'rent') {
+      const parsedRent = rentRequestSchema.safeParse(body);
+      if (!parsedRent.success) {
+        return invalidInputResponse(parsedRent.error.flatten().fieldErrors);
+      }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are a professional real estate appraiser and market analyst with extensive knowledge of property valuation. Always respond with valid JSON only.' 
-          },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('OpenAI API error:', response.status, response.statusText);
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+      const quota = await checkPredictionQuota(req, { consume: true });
+      if (!quota.allowed) {
+        return rateLimitedResponse(quota);
+      }
+
+      const prediction = await predictRent(parsedRent.data);
+      return new Response(
+        JSON.stringify({ prediction, quota: toQuotaBody(quota) }),
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
     }
 
-    const data = await response.json();
-    console.log('OpenAI response:', data);
+    const parsed = valuationRequestSchema.safeParse(body);
 
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      throw new Error('Invalid response from OpenAI');
+    if (!parsed.success) {
+      return invalidInputResponse(parsed.error.flatten().fieldErrors);
     }
 
-    const aiResponse = data.choices[0].message.content;
-    console.log('AI response content:', aiResponse);
-
-    // Parse the JSON response from AI
-    let prediction;
-    try {
-      prediction = JSON.parse(aiResponse);
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', parseError);
-      console.error('AI response was:', aiResponse);
-      
-      // Fallback prediction if AI doesn't return valid JSON
-      const basePrice = calculateBasePriceFromArea(
-        parseInt(propertyData.area), 
-        propertyData.city, 
-        propertyData.state,
-        propertyData.propertyType
-      );
-      
-      prediction = {
-        estimatedPrice: basePrice,
-        priceRange: {
-          min: Math.round(basePrice * 0.85),
-          max: Math.round(basePrice * 1.15)
-        },
-        confidence: 75,
-        factors: {
-          location: 80,
-          size: 85,
-          bedrooms: 75,
-          bathrooms: 75,
-          amenities: 70,
-          market: 80
-        },
-        comparableProperties: [
-          { price: Math.round(basePrice * 0.95), distance: "0.5 miles", similarity: 92 },
-          { price: Math.round(basePrice * 1.08), distance: "0.8 miles", similarity: 88 },
-          { price: Math.round(basePrice * 0.92), distance: "1.2 miles", similarity: 85 }
-        ]
-      };
+    const propertyData = parsed.data;
+    console.log('Received property data:', propertyData);
+
+    // Batch runs skip the narrative, which also keeps them out of the LLM's cache entries
+    const wantsNarrative = body.narrative !== false;
+    const llm = wantsNarrative ? getNarrativeProvider() : null;
+    const llmProvider = llm ? `${llm.name}:${llm.model}` : null;
+    const cacheVersion = `${VALUATION_MODEL_VERSION}|v${PREDICTION_FORMAT_VERSION}|${llmProvider ?? 'no-llm'}`;
+    const inputHash = await hashValuationInput(propertyData, cacheVersion);
+
+    // Cached answers are free, so they don't count against the quota; `refresh` forces a new estimate
+    if (body.refresh !== true) {
+      const cached = await getCachedPrediction(inputHash);
+      if (cached) {
+        const quota = await checkPredictionQuota(req, { consume: false });
+        const valuationId = quota.userId && body.saveToHistory !== false
+          ? await recordPrediction({
+              userId: quota.userId,
+              input: propertyData,
+              prediction: cached.prediction,
+              llmProvider,
+              cached: true,
+              rerunOf: body.rerunOf,
+            })
+          : null;
+        return new Response(
+          JSON.stringify({
+            prediction: cached.prediction,
+            cached: true,
+            cachedAt: cached.cachedAt,
+            valuationId,
+            quota: toQuotaBody(quota),
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              'Content-Type': 'application/json'
+            }
+          }
+        );
+      }
     }
 
-    // Validate the prediction structure
-    if (!prediction.estimatedPrice || !prediction.priceRange || !prediction.factors) {
-      throw new Error('Invalid prediction structure received from AI');
+    // Only well-formed requests count against the quota
+    const quota = await checkPredictionQuota(req, { consume: true });
+    if (!quota.allowed) {
+      return rateLimitedResponse(quota);
     }
 
+    const prediction = await predictPrice(propertyData, { narrative: wantsNarrative });
+
     console.log('Final prediction:', prediction);
 
+    await storeCachedPrediction(inputHash, propertyData, prediction, cacheVersion);
+
+    // Signed-in users keep every estimate they've been shown, except what-if scenarios
+    const valuationId = quota.userId && body.saveToHistory !== false
+      ? await recordPrediction({
+          userId: quota.userId,
+          input: propertyData,
+          prediction,
+          llmProvider,
+          cached: false,
+          rerunOf: body.rerunOf,
+        })
+      : null;
+
     return new Response(
-      JSON.stringify({ prediction }), 
+      JSON.stringify({ prediction, cached: false, cachedAt: null, valuationId, quota: toQuotaBody(quota) }), 
       { 
         headers: { 
           ...corsHeaders, 
@@ -183,39 +195,3 @@ Consider current market trends, location desirability, property features, and re
     );
   }
 });
-
-// Fallback price calculation function
-function calculateBasePriceFromArea(
-  area: number, 
-  city: string, 
-  state: string, 
-  propertyType: string
-): number {
-  // Base price per sq ft by property type
-  const baseRates: Record<string, number> = {
-    'apartment': 200,
-    'house': 250,
-    'villa': 400,
-    'penthouse': 500,
-    'studio': 300
-  };
-
-  // City multipliers (rough estimates)
-  const cityMultipliers: Record<string, number> = {
-    'new york': 3.5,
-    'san francisco': 3.0,
-    'los angeles': 2.5,
-    'seattle': 2.2,
-    'boston': 2.0,
-    'miami': 1.8,
-    'chicago': 1.5,
-    'austin': 1.4,
-    'denver': 1.3,
-    'atlanta': 1.2
-  };
-
-  const baseRate = baseRates[propertyType] || 250;
-  const cityMultiplier = cityMultipliers[city.toLowerCase()] || 1.0;
-  
-  return Math.round(area * baseRate * cityMultiplier);
-}
\ No newline at end of file
@@ -0,0 +1,326 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { predictPrice } from "../_shared/predictPrice.ts";
+import { AMENITIES, valuationRequestSchema } from "../_shared/predictionSchema.ts";
+import { ChatMessage, getLLMProvider, ToolDefinition } from "../_shared/llm.ts";
+import { checkPredictionQuota, consumeChatQuota } from "../_shared/rateLimit.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+const MAX_TOOL_ROUNDS = 4;
+const HISTORY_LIMIT = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SYSTEM_PROMPT = `You are the SmartHome Finder assistant. You help users find and evaluate homes listed on the platform.
+Only state facts about listings that come from tool results. When you mention a listing, include its id in square brackets, e.g. [id:...].
+If a search returns nothing, say so and suggest loosening the criteria. Keep answers concise.`;
+
+const tools: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_properties',
+      description: 'Search available property listings by location, type, price, bedrooms, bathrooms and size.',
+      parameters: {
+        type: 'object',
+        properties: {
+          city: { type: 'string', description: 'City name (partial match)' },
+          state: { type: 'string', description: 'State code, e.g. CA' },
+          propertyType: { type: 'string', enum: ['apartment', 'house', 'villa', 'penthouse', 'studio'] },
+          minPrice: { type: 'number' },
+          maxPrice: { type: 'number' },
+          minBedrooms: { type: 'integer' },
+          minBathrooms: { type: 'integer' },
+          minArea: { type: 'integer', description: 'Minimum area in sq ft' },
+          petFriendly: { type: 'boolean' },
+          limit: { type: 'integer', description: 'Maximum results, defaults to 5' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_property_details',
+      description: 'Get the full record for one listing, including description, amenities and agent contact.',
+      parameters: {
+        type: 'object',
+        properties: {
+          propertyId: { type: 'string', description: 'The listing id' },
+        },
+        required: ['propertyId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'estimate_price',
+      description: 'Estimate the market value of a property from its features using the price prediction model.',
+      parameters: {
+        type: 'object',
+        properties: {
+          propertyType: { type: 'string', enum: ['apartment', 'house', 'villa', 'penthouse', 'studio'] },
+          bedrooms: { type: 'integer' },
+          bathrooms: { type: 'number' },
+          area: { type: 'integer', description: 'Area in sq ft' },
+          city: { type: 'string' },
+          state: { type: 'string' },
+          yearBuilt: { type: 'integer' },
+          amenities: { type: 'array', items: { type: 'string', enum: [...AMENITIES] } },
+        },
+        required: ['propertyType', 'bedrooms', 'bathrooms', 'area', 'city', 'state'],
+      },
+    },
+  },
+];
+
+interface SearchArgs {
+  city?: string;
+  state?: string;
+  propertyType?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  minBathrooms?: number;
+  minArea?: number;
+  petFriendly?: boolean;
+  limit?: number;
+}
+
+const SUMMARY_COLUMNS = 'id, title, property_type, price, bedrooms, bathrooms, area_sqft, city, state, pet_friendly';
+
+async function runTool(
+  req: Request,
+  supabase: SupabaseClient,
+  name: string,
+  rawArgs: Record<string, unknown>,
+  citedIds: Set<string>,
+) {
+  switch (name) {
+    case 'search_properties': {
+      const args = rawArgs as SearchArgs;
+      let query = supabase
+        .from('properties')
+        .select(SUMMARY_COLUMNS)
+        .eq('status', 'available');
+
+      if (args.city) query = query.ilike('city', `%${args.city}%`);
+      if (args.state) query = query.ilike('state', args.state);
+      if (args.propertyType) query = query.eq('property_type', args.propertyType);
+      if (args.minPrice) query = query.gte('price', args.minPrice);
+      if (args.maxPrice) query = query.lte('price', args.maxPrice);
+      if (args.minBedrooms) query = query.gte('bedrooms', args.minBedrooms);
+      if (args.minBathrooms) query = query.gte('bathrooms', args.minBathrooms);
+      if (args.minArea) query = query.gte('area_sqft', args.minArea);
+      if (args.petFriendly !== undefined) query = query.eq('pet_friendly', args.petFriendly);
+
+      const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 10);
+      const { data, error } = await query.order('price', { ascending: true }).limit(limit);
+      if (error) throw error;
+
+      data?.forEach((row) => citedIds.add(row.id));
+      return { results: data ?? [] };
+    }
+
+    case 'get_property_details': {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('*')
+        .eq('id', String(rawArgs.propertyId))
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return { error: 'Property not found' };
+
+      citedIds.add(data.id);
+      return { property: data };
+    }
+
+    case 'estimate_price': {
+      // Tool arguments are model output, so they get the same validation as the form
+      const parsed = valuationRequestSchema.safeParse(rawArgs);
+      if (!parsed.success) {
+        return { error: 'Invalid property details', fieldErrors: parsed.error.flatten().fieldErrors };
+      }
+
+      // Estimates share the daily quota with the price prediction page
+      const quota = await checkPredictionQuota(req, { consume: true });
+      if (!quota.allowed) {
+        return {
+          error: quota.remaining === 0 ? 'Daily estimate limit reached' : 'Too many requests',
+          retryAfterSeconds: quota.retryAfterSeconds,
+        };
+      }
+
+      const prediction = await predictPrice(parsed.data, { narrative: false });
+      prediction.comparableProperties.forEach((comp) => citedIds.add(comp.id));
+      return {
+        estimatedPrice: prediction.estimatedPrice,
+        priceRange: prediction.priceRange,
+        confidence: prediction.confidence,
+        comparables: prediction.comparableProperties.map(({ id, title, price, similarity }) => ({ id, title, price, similarity })),
+      };
+    }
+
+    default:
+      return { error: `Unknown tool: ${name}` };
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    // Act as the caller so RLS scopes every read and write to their own rows
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const { conversationId, message } = await req.json();
+    if (typeof message !== 'string' || !message.trim()) {
+      return jsonResponse({ error: 'Message is required' }, 400);
+    }
+
+    // Messages can only be added to one of the caller's own conversations
+    if (conversationId) {
+      if (typeof conversationId !== 'string' || !UUID_PATTERN.test(conversationId)) {
+        return jsonResponse({ error: 'Conversation not found' }, 404);
+      }
+
+      const { data: conversation, error } = await supabase
+        .from('chat_conversations')
+        .select('id')
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!conversation) {
+        return jsonResponse({ error: 'Conversation not found' }, 404);
+      }
+    }
+
+    // Each message can take several LLM calls, so messages are limited per user
+    const quota = await consumeChatQuota(user.id);
+    if (!quota.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: quota.remaining === 0 ? 'Daily message limit reached' : 'Too many messages',
+          retryAfter: quota.retryAfterSeconds,
+        }),
+        {
+          status: 429,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': String(quota.retryAfterSeconds),
+          },
+        }
+      );
+    }
+
+    let activeConversationId = conversationId as string | undefined;
+    if (!activeConversationId) {
+      const { data: conversation, error } = await supabase
+        .from('chat_conversations')
+        .insert({ user_id: user.id, title: message.trim().slice(0, 60) })
+        .select('id')
+        .single();
+      if (error) throw error;
+      activeConversationId = conversation.id;
+    }
+
+    const { data: history, error: historyError } = await supabase
+      .from('chat_messages')
+      .select('role, content')
+      .eq('conversation_id', activeConversationId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+    if (historyError) throw historyError;
+
+    const { error: insertError } = await supabase
+      .from('chat_messages')
+      .insert({ conversation_id: activeConversationId, user_id: user.id, role: 'user', content: message.trim() });
+    if (insertError) throw insertError;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...(history ?? []).reverse().map((row) => ({ role: row.role, content: row.content } as ChatMessage)),
+      { role: 'user', content: message.trim() },
+    ];
+
+    const llm = getLLMProvider();
+    if (!llm) {
+      throw new Error('No LLM provider configured');
+    }
+
+    const citedIds = new Set<string>();
+    let reply: ChatMessage | null = null;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      reply = await llm.complete({ messages, tools, temperature: 0.3, maxTokens: 1000 });
+      if (!reply.tool_calls || reply.tool_calls.length === 0) break;
+
+      messages.push(reply);
+      for (const toolCall of reply.tool_calls) {
+        let result;
+        try {
+          result = await runTool(req, supabase, toolCall.function.name, JSON.parse(toolCall.function.arguments || '{}'), citedIds);
+        } catch (toolError) {
+          console.error(`Tool ${toolCall.function.name} failed:`, toolError);
+          result = { error: 'Tool call failed' };
+        }
+        messages.push({ role: 'tool', tool_call_id: toolCall.id, content: JSON.stringify(result) });
+      }
+    }
+
+    const content = reply?.content?.trim() || "Sorry, I couldn't come up with an answer. Please try rephrasing.";
+
+    // Only cite listings the assistant actually referenced in its answer
+    const citedPropertyIds = [...citedIds].filter((id) => content.includes(id));
+
+    const { data: saved, error: saveError } = await supabase
+      .from('chat_messages')
+      .insert({
+        conversation_id: activeConversationId,
+        user_id: user.id,
+        role: 'assistant',
+        content,
+        cited_property_ids: citedPropertyIds,
+      })
+      .select('*')
+      .single();
+    if (saveError) throw saveError;
+
+    await supabase
+      .from('chat_conversations')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', activeConversationId);
+
+    return jsonResponse({ conversationId: activeConversationId, message: saved });
+
+  } catch (error) {
+    console.error('Error in property-chat function:', error);
+
+    return jsonResponse({
+      error: 'Failed to generate a response',
+      message: error.message,
+    }, 500);
+  }
+});
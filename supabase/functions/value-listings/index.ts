@@ -0,0 +1,35 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { valueListings } from "../_shared/listingValuations.ts";
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    }
+  });
+
+// Called by the value-listings cron job to fill in deal scores for new and edited listings
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Valuing listings requires the service role' }, 403);
+  }
+
+  try {
+    const result = await valueListings();
+    console.log(`Valued ${result.valued} of ${result.due} listings with ${result.modelVersion}`);
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Error in value-listings function:', error);
+    return jsonResponse({ error: 'Failed to value listings', message: error.message }, 500);
+  }
+});
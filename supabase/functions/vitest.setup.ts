@@ -0,0 +1,14 @@
+// Just enough of the Deno runtime for the shared function code to run under Vitest.
+// Supabase clients are created when their modules load, so they need a URL and key even
+// though the tests never reach a database.
+process.env.SUPABASE_URL ??= 'http://127.0.0.1:54321';
+process.env.SUPABASE_ANON_KEY ??= 'test-anon-key';
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'test-service-role-key';
+
+Object.assign(globalThis, {
+  Deno: {
+    env: {
+      get: (name: string) => process.env[name],
+    },
+  },
+});
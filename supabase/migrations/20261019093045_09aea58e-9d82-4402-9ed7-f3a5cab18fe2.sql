@@ -0,0 +1,70 @@
+-- Create favorite collections so users can group saved properties
+CREATE TABLE public.favorite_collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- Extend favorites with an optional collection and a private note
+ALTER TABLE public.user_favorites
+  ADD COLUMN collection_id UUID REFERENCES public.favorite_collections(id) ON DELETE SET NULL,
+  ADD COLUMN note TEXT,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Enable Row Level Security
+ALTER TABLE public.favorite_collections ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for favorite collections
+CREATE POLICY "Users can view their own collections" 
+ON public.favorite_collections 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections" 
+ON public.favorite_collections 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections" 
+ON public.favorite_collections 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections" 
+ON public.favorite_collections 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Favorites can now be edited (note, collection), but only into the user's own collections
+CREATE POLICY "Users can update their own favorites" 
+ON public.user_favorites 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    collection_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.favorite_collections c
+      WHERE c.id = collection_id AND c.user_id = auth.uid()
+    )
+  )
+);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_favorite_collections_updated_at
+  BEFORE UPDATE ON public.favorite_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_user_favorites_updated_at
+  BEFORE UPDATE ON public.user_favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_favorite_collections_user ON public.favorite_collections (user_id);
+CREATE INDEX idx_user_favorites_collection ON public.user_favorites (collection_id);
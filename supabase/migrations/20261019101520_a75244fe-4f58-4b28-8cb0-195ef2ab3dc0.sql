@@ -0,0 +1,30 @@
+-- Expand the notification settings default to cover every channel and notification type
+ALTER TABLE public.profiles
+  ALTER COLUMN notification_settings
+  SET DEFAULT '{"email": true, "push": true, "in_app": true, "price_change": true, "property_match": true, "new_listing": true}';
+
+-- Create public bucket for profile avatars
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Avatars are stored under a folder named after the owner's user id
+CREATE POLICY "Avatar images are publicly accessible" 
+ON storage.objects 
+FOR SELECT 
+USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own avatar" 
+ON storage.objects 
+FOR UPDATE 
+USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own avatar" 
+ON storage.objects 
+FOR DELETE 
+USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
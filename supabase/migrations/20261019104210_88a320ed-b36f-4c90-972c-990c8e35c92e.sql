@@ -0,0 +1,6 @@
+-- Stream notification inserts and updates to the client for the live notification bell
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Speed up the paginated, newest-first notification feed
+CREATE INDEX idx_notifications_user_created ON public.notifications (user_id, created_at DESC);
@@ -0,0 +1,124 @@
+-- Create property price history table
+CREATE TABLE public.property_price_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  old_price DECIMAL(15,2),
+  new_price DECIMAL(15,2) NOT NULL,
+  old_status TEXT,
+  new_status TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  notified_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.property_price_history ENABLE ROW LEVEL SECURITY;
+
+-- Price history is as public as the listings themselves
+CREATE POLICY "Anyone can view property price history" 
+ON public.property_price_history 
+FOR SELECT 
+USING (true);
+
+-- Record the listing price on insert and every later price or status change
+CREATE OR REPLACE FUNCTION public.record_property_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.property_price_history (property_id, new_price, new_status, notified_at)
+    VALUES (NEW.id, NEW.price, NEW.status, now());
+  ELSIF NEW.price IS DISTINCT FROM OLD.price OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.property_price_history (property_id, old_price, new_price, old_status, new_status)
+    VALUES (NEW.id, OLD.price, NEW.price, OLD.status, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_properties_price_change
+  AFTER INSERT OR UPDATE OF price, status ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_property_price_change();
+
+-- Seed history with current listing prices so every property has a starting point
+INSERT INTO public.property_price_history (property_id, new_price, new_status, changed_at, notified_at)
+SELECT id, price, status, created_at, now()
+FROM public.properties;
+
+-- Turn pending history rows into price_change notifications for everyone who saved the property.
+-- Users who switched off in-app alerts or price change alerts are skipped.
+CREATE OR REPLACE FUNCTION public.notify_price_changes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  WITH pending AS (
+    SELECT h.id, h.property_id, h.old_price, h.new_price, h.old_status, h.new_status, p.title
+    FROM public.property_price_history h
+    JOIN public.properties p ON p.id = h.property_id
+    WHERE h.notified_at IS NULL
+    ORDER BY h.changed_at
+    FOR UPDATE OF h SKIP LOCKED
+  ),
+  marked AS (
+    UPDATE public.property_price_history h
+    SET notified_at = now()
+    FROM pending
+    WHERE h.id = pending.id
+    RETURNING pending.*
+  ),
+  inserted AS (
+    INSERT INTO public.notifications (user_id, title, message, type, property_id)
+    SELECT
+      f.user_id,
+      CASE
+        WHEN m.new_status IS DISTINCT FROM m.old_status THEN 'Status update on saved property'
+        WHEN m.new_price < m.old_price THEN 'Price drop on saved property'
+        ELSE 'Price increase on saved property'
+      END,
+      CASE
+        WHEN m.new_status IS DISTINCT FROM m.old_status THEN
+          format('%s is now %s.', m.title, COALESCE(m.new_status, 'unlisted'))
+        ELSE
+          format('%s changed from $%s to $%s (%s%s%%).',
+            m.title,
+            to_char(m.old_price, 'FM999,999,999,990'),
+            to_char(m.new_price, 'FM999,999,999,990'),
+            CASE WHEN m.new_price > m.old_price THEN '+' ELSE '' END,
+            round((m.new_price - m.old_price) / NULLIF(m.old_price, 0) * 100, 1))
+      END,
+      'price_change',
+      m.property_id
+    FROM marked m
+    JOIN public.user_favorites f ON f.property_id = m.property_id
+    LEFT JOIN public.profiles pr ON pr.user_id = f.user_id
+    WHERE COALESCE((pr.notification_settings->>'in_app')::boolean, true)
+      AND COALESCE((pr.notification_settings->>'price_change')::boolean, true)
+    RETURNING 1
+  )
+  SELECT count(*) INTO inserted_count FROM inserted;
+
+  RETURN inserted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_price_changes() FROM PUBLIC, anon, authenticated;
+
+-- Run the notification job every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'notify-price-changes',
+  '*/5 * * * *',
+  $$SELECT public.notify_price_changes()$$
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_property_price_history_property ON public.property_price_history (property_id, changed_at);
+CREATE INDEX idx_property_price_history_pending ON public.property_price_history (changed_at) WHERE notified_at IS NULL;
+CREATE INDEX idx_user_favorites_property ON public.user_favorites (property_id);
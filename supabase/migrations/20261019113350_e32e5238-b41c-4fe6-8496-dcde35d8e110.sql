@@ -0,0 +1,218 @@
+-- Create saved searches table
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  search_query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}',
+  sort_by TEXT NOT NULL DEFAULT 'created_at',
+  sort_order TEXT NOT NULL DEFAULT 'desc' CHECK (sort_order IN ('asc', 'desc')),
+  delivery TEXT NOT NULL DEFAULT 'instant' CHECK (delivery IN ('instant', 'daily')),
+  paused BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Every listing that has matched a saved search; also the queue for daily digests
+CREATE TABLE public.saved_search_matches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  match_type TEXT NOT NULL CHECK (match_type IN ('new_listing', 'property_match')),
+  matched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(saved_search_id, property_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for saved searches
+CREATE POLICY "Users can view their own saved searches" 
+ON public.saved_searches 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches" 
+ON public.saved_searches 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches" 
+ON public.saved_searches 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches" 
+ON public.saved_searches 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Matches are written by triggers only
+CREATE POLICY "Users can view matches for their own saved searches" 
+ON public.saved_search_matches 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.saved_searches s
+    WHERE s.id = saved_search_id AND s.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Mirrors buildPropertiesQuery() in src/lib/propertyFilters.ts
+CREATE OR REPLACE FUNCTION public.saved_search_matches_property(s public.saved_searches, p public.properties)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    COALESCE(p.status, 'available') = 'available'
+    AND (
+      s.search_query = ''
+      OR p.title ILIKE '%' || s.search_query || '%'
+      OR p.city ILIKE '%' || s.search_query || '%'
+      OR p.address ILIKE '%' || s.search_query || '%'
+    )
+    AND (COALESCE(s.filters->>'propertyType', '') = '' OR p.property_type = s.filters->>'propertyType')
+    AND (COALESCE(s.filters->>'city', '') = '' OR p.city ILIKE '%' || (s.filters->>'city') || '%')
+    AND (COALESCE(s.filters->>'bedrooms', '') = '' OR p.bedrooms = (s.filters->>'bedrooms')::integer)
+    AND (COALESCE(s.filters->>'bathrooms', '') = '' OR p.bathrooms = (s.filters->>'bathrooms')::integer)
+    AND (COALESCE(s.filters->>'minArea', '') = '' OR p.area_sqft >= (s.filters->>'minArea')::integer)
+    AND (COALESCE(s.filters->>'maxArea', '') = '' OR p.area_sqft <= (s.filters->>'maxArea')::integer)
+    AND (
+      jsonb_array_length(COALESCE(s.filters->'amenities', '[]')) = 0
+      OR COALESCE(p.amenities, '[]') @> (s.filters->'amenities')
+    )
+    AND p.price >= COALESCE((s.filters->'priceRange'->>0)::numeric, 0)
+    AND p.price <= COALESCE((s.filters->'priceRange'->>1)::numeric, 'Infinity'::numeric);
+$$;
+
+-- Whether a user wants in-app alerts of the given notification type
+CREATE OR REPLACE FUNCTION public.wants_notification(target_user UUID, notification_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT COALESCE((notification_settings->>'in_app')::boolean, true)
+        AND COALESCE((notification_settings->>notification_type)::boolean, true)
+      FROM public.profiles
+      WHERE user_id = target_user
+    ),
+    true
+  );
+$$;
+
+-- Record matches for new or changed listings; instant searches are notified right away.
+-- A listing only ever matches a given search once, so edits don't re-notify.
+CREATE OR REPLACE FUNCTION public.match_property_against_saved_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  match_kind TEXT := CASE WHEN TG_OP = 'INSERT' THEN 'new_listing' ELSE 'property_match' END;
+  s public.saved_searches;
+BEGIN
+  FOR s IN
+    SELECT * FROM public.saved_searches
+    WHERE NOT paused
+  LOOP
+    CONTINUE WHEN NOT public.saved_search_matches_property(s, NEW);
+
+    INSERT INTO public.saved_search_matches (saved_search_id, property_id, match_type, notified_at)
+    VALUES (s.id, NEW.id, match_kind, CASE WHEN s.delivery = 'instant' THEN now() END)
+    ON CONFLICT (saved_search_id, property_id) DO NOTHING;
+
+    CONTINUE WHEN NOT FOUND OR s.delivery <> 'instant';
+
+    IF public.wants_notification(s.user_id, match_kind) THEN
+      INSERT INTO public.notifications (user_id, title, message, type, property_id)
+      VALUES (
+        s.user_id,
+        CASE WHEN match_kind = 'new_listing' THEN 'New listing for "' || s.name || '"' ELSE 'New match for "' || s.name || '"' END,
+        format('%s in %s, %s - $%s', NEW.title, NEW.city, NEW.state, to_char(NEW.price, 'FM999,999,999,990')),
+        match_kind,
+        NEW.id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER match_properties_against_saved_searches
+  AFTER INSERT OR UPDATE OF price, status, property_type, bedrooms, bathrooms, area_sqft, city, title, address, amenities
+  ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.match_property_against_saved_searches();
+
+-- Roll up pending matches for daily searches into one notification per search
+CREATE OR REPLACE FUNCTION public.send_saved_search_digests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  WITH pending AS (
+    UPDATE public.saved_search_matches m
+    SET notified_at = now()
+    FROM public.saved_searches s
+    WHERE m.saved_search_id = s.id
+      AND m.notified_at IS NULL
+      AND s.delivery = 'daily'
+      AND NOT s.paused
+    RETURNING s.id AS saved_search_id, s.user_id, s.name, m.property_id, m.match_type
+  ),
+  grouped AS (
+    SELECT
+      saved_search_id,
+      user_id,
+      name,
+      count(*) AS match_count,
+      CASE WHEN bool_and(match_type = 'new_listing') THEN 'new_listing' ELSE 'property_match' END AS match_kind,
+      CASE WHEN count(*) = 1 THEN min(property_id::text)::uuid END AS single_property_id
+    FROM pending
+    GROUP BY saved_search_id, user_id, name
+  ),
+  inserted AS (
+    INSERT INTO public.notifications (user_id, title, message, type, property_id)
+    SELECT
+      user_id,
+      'Daily digest for "' || name || '"',
+      format('%s %s matched your saved search today.', match_count, CASE WHEN match_count = 1 THEN 'property' ELSE 'properties' END),
+      match_kind,
+      single_property_id
+    FROM grouped
+    WHERE public.wants_notification(user_id, match_kind)
+    RETURNING 1
+  )
+  SELECT count(*) INTO inserted_count FROM inserted;
+
+  RETURN inserted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_saved_search_digests() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'saved-search-daily-digest',
+  '0 8 * * *',
+  $$SELECT public.send_saved_search_digests()$$
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_saved_searches_user ON public.saved_searches (user_id);
+CREATE INDEX idx_saved_searches_active ON public.saved_searches (delivery) WHERE NOT paused;
+CREATE INDEX idx_saved_search_matches_pending ON public.saved_search_matches (saved_search_id) WHERE notified_at IS NULL;
@@ -0,0 +1,98 @@
+-- Track every price estimate for rate limiting and daily quotas
+CREATE TABLE public.prediction_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  ip_address TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prediction_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the predict-price function only
+CREATE POLICY "Users can view their own prediction usage" 
+ON public.prediction_usage 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Check (and optionally record) an estimate against the caller's limits:
+-- anonymous callers get 5 a day per IP, signed-in users 50 a day,
+-- and nobody may make more than 10 a minute per user or 20 a minute per IP.
+CREATE OR REPLACE FUNCTION public.consume_prediction_quota(
+  p_user_id UUID,
+  p_ip_address TEXT,
+  p_consume BOOLEAN DEFAULT true
+)
+RETURNS TABLE (allowed BOOLEAN, daily_limit INTEGER, remaining INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  minute_ago TIMESTAMP WITH TIME ZONE := now() - interval '1 minute';
+  limit_today INTEGER := CASE WHEN p_user_id IS NULL THEN 5 ELSE 50 END;
+  used_today INTEGER;
+  recent_user INTEGER;
+  recent_ip INTEGER;
+  oldest_user TIMESTAMP WITH TIME ZONE;
+  oldest_ip TIMESTAMP WITH TIME ZONE;
+  oldest_recent TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialize concurrent requests from the same caller so counts can't race
+  PERFORM pg_advisory_xact_lock(hashtext(COALESCE(p_user_id::text, 'ip:' || p_ip_address)));
+
+  SELECT count(*) INTO used_today
+  FROM public.prediction_usage u
+  WHERE u.created_at >= day_start
+    AND CASE
+      WHEN p_user_id IS NULL THEN u.user_id IS NULL AND u.ip_address = p_ip_address
+      ELSE u.user_id = p_user_id
+    END;
+
+  IF used_today >= limit_today THEN
+    RETURN QUERY SELECT false, limit_today, 0,
+      ceil(extract(epoch FROM day_start + interval '1 day' - now()))::integer;
+    RETURN;
+  END IF;
+
+  -- Per-minute burst limits; wait until the oldest request in the window ages out
+  SELECT count(*), min(created_at) INTO recent_user, oldest_user
+  FROM public.prediction_usage
+  WHERE p_user_id IS NOT NULL AND user_id = p_user_id AND created_at > minute_ago;
+
+  SELECT count(*), min(created_at) INTO recent_ip, oldest_ip
+  FROM public.prediction_usage
+  WHERE ip_address = p_ip_address AND created_at > minute_ago;
+
+  oldest_recent := least(
+    CASE WHEN recent_user >= 10 THEN oldest_user END,
+    CASE WHEN recent_ip >= 20 THEN oldest_ip END
+  );
+
+  IF oldest_recent IS NOT NULL THEN
+    RETURN QUERY SELECT false, limit_today, limit_today - used_today,
+      greatest(1, ceil(extract(epoch FROM oldest_recent + interval '1 minute' - now())))::integer;
+    RETURN;
+  END IF;
+
+  IF p_consume THEN
+    INSERT INTO public.prediction_usage (user_id, ip_address) VALUES (p_user_id, p_ip_address);
+    used_today := used_today + 1;
+  END IF;
+
+  RETURN QUERY SELECT true, limit_today, limit_today - used_today, 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_prediction_quota(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Usage older than two days no longer affects any limit
+SELECT cron.schedule(
+  'prune-prediction-usage',
+  '30 3 * * *',
+  $$DELETE FROM public.prediction_usage WHERE created_at < now() - interval '2 days'$$
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_prediction_usage_user ON public.prediction_usage (user_id, created_at);
+CREATE INDEX idx_prediction_usage_ip ON public.prediction_usage (ip_address, created_at);
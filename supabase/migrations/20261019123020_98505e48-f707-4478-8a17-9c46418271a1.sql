@@ -0,0 +1,21 @@
+-- Cache predictions by a hash of the normalized input
+CREATE TABLE public.prediction_cache (
+  input_hash TEXT NOT NULL PRIMARY KEY,
+  input JSONB NOT NULL,
+  prediction JSONB NOT NULL,
+  model_version TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Enable Row Level Security; only the predict-price function (service role) reads or writes the cache
+ALTER TABLE public.prediction_cache ENABLE ROW LEVEL SECURITY;
+
+SELECT cron.schedule(
+  'prune-prediction-cache',
+  '15 * * * *',
+  $$DELETE FROM public.prediction_cache WHERE expires_at < now()$$
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_prediction_cache_expires ON public.prediction_cache (expires_at);
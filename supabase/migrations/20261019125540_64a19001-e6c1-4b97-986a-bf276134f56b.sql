@@ -0,0 +1,44 @@
+-- Create price predictions history table
+CREATE TABLE public.price_predictions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Re-runs point at the estimate they were re-run from, so changes in value can be compared
+  source_id UUID REFERENCES public.price_predictions(id) ON DELETE SET NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 120),
+  input JSONB NOT NULL,
+  prediction JSONB NOT NULL,
+  estimated_price DECIMAL(15,2) NOT NULL,
+  model_version TEXT NOT NULL,
+  llm_provider TEXT,
+  cached BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.price_predictions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are inserted by the predict-price function; users manage their own history
+CREATE POLICY "Users can view their own price predictions" 
+ON public.price_predictions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own price predictions" 
+ON public.price_predictions 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own price predictions" 
+ON public.price_predictions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_price_predictions_updated_at
+  BEFORE UPDATE ON public.price_predictions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_price_predictions_user ON public.price_predictions (user_id, created_at DESC);
+CREATE INDEX idx_price_predictions_source ON public.price_predictions (source_id);
@@ -0,0 +1,78 @@
+-- Create rental listings table, used for rent estimates and rental comparables
+CREATE TABLE public.rental_listings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  property_type TEXT NOT NULL CHECK (property_type IN ('apartment', 'house', 'villa', 'penthouse', 'studio')),
+  monthly_rent DECIMAL(10,2) NOT NULL CHECK (monthly_rent > 0),
+  lease_term_months INTEGER NOT NULL DEFAULT 12 CHECK (lease_term_months BETWEEN 1 AND 36),
+  utilities_included BOOLEAN NOT NULL DEFAULT false,
+  area_sqft INTEGER NOT NULL,
+  bedrooms INTEGER NOT NULL,
+  bathrooms DECIMAL(3,1) NOT NULL,
+  address TEXT NOT NULL,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  zipcode TEXT,
+  latitude DECIMAL(10,8),
+  longitude DECIMAL(11,8),
+  amenities JSONB DEFAULT '[]'::jsonb,
+  year_built INTEGER,
+  parking_spaces INTEGER DEFAULT 0,
+  furnished BOOLEAN DEFAULT false,
+  pet_friendly BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.rental_listings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rental listings are viewable by everyone" 
+ON public.rental_listings 
+FOR SELECT 
+USING (true);
+
+CREATE TRIGGER update_rental_listings_updated_at
+  BEFORE UPDATE ON public.rental_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed rentals in the same markets as the sample properties
+INSERT INTO public.rental_listings (
+  title, property_type, monthly_rent, lease_term_months, utilities_included, area_sqft, bedrooms, bathrooms,
+  address, city, state, zipcode, latitude, longitude, amenities, year_built, parking_spaces, furnished, pet_friendly
+) VALUES
+('Midtown One Bedroom', 'apartment', 3900.00, 12, false, 750, 1, 1,
+ '210 W 38th Street', 'New York', 'NY', '10018', 40.7536, -73.9885,
+ '["Elevator", "Laundry", "Security"]', 2008, 0, false, true),
+('Chelsea Two Bedroom with Balcony', 'apartment', 5600.00, 12, false, 1100, 2, 2,
+ '305 W 21st Street', 'New York', 'NY', '10011', 40.7445, -74.0005,
+ '["Elevator", "Balcony", "Gym", "Air Conditioning"]', 2016, 0, true, false),
+('Beverly Hills Garden House', 'house', 7800.00, 12, false, 2200, 3, 2.5,
+ '812 N Crescent Drive', 'Los Angeles', 'CA', '90210', 34.0781, -118.4069,
+ '["Garden", "Garage", "Fireplace", "Laundry"]', 1995, 2, false, true),
+('West Hollywood Studio', 'studio', 2100.00, 6, true, 480, 0, 1,
+ '1140 N La Brea Avenue', 'Los Angeles', 'CA', '90038', 34.0905, -118.3441,
+ '["Laundry", "Air Conditioning"]', 2012, 1, true, false),
+('Back Bay Studio', 'studio', 2350.00, 12, true, 420, 0, 1,
+ '88 Commonwealth Avenue', 'Boston', 'MA', '02116', 42.3524, -71.0760,
+ '["Laundry", "Heating"]', 1960, 0, false, false),
+('Cambridge Two Bedroom', 'apartment', 3600.00, 12, false, 950, 2, 1,
+ '45 Harvard Street', 'Boston', 'MA', '02139', 42.3656, -71.1040,
+ '["Hardwood Floors", "Laundry"]', 1985, 1, false, true),
+('East Austin Family Home', 'house', 3400.00, 12, false, 2100, 4, 3,
+ '1705 E 12th Street', 'Austin', 'TX', '78702', 30.2743, -97.7231,
+ '["Garage", "Garden", "Updated Kitchen"]', 2010, 2, false, true),
+('South Congress Apartment', 'apartment', 1850.00, 6, false, 820, 1, 1,
+ '1500 S Congress Avenue', 'Austin', 'TX', '78704', 30.2489, -97.7500,
+ '["Swimming Pool", "Gym", "Parking"]', 2017, 1, false, true),
+('Brickell Penthouse', 'penthouse', 9500.00, 12, false, 2400, 3, 3.5,
+ '1000 Brickell Plaza', 'Miami', 'FL', '33131', 25.7656, -80.1918,
+ '["Swimming Pool", "Gym", "Security", "Elevator", "Balcony"]', 2019, 2, true, false),
+('Little Havana Two Bedroom', 'apartment', 2600.00, 12, true, 900, 2, 1,
+ '1450 SW 8th Street', 'Miami', 'FL', '33135', 25.7657, -80.2177,
+ '["Air Conditioning", "Parking"]', 1998, 1, false, true);
+
+-- Create indexes for better performance
+CREATE INDEX idx_rental_listings_state ON public.rental_listings (state);
+CREATE INDEX idx_rental_listings_city ON public.rental_listings (city);
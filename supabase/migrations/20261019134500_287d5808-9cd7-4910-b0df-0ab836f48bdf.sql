@@ -0,0 +1,15 @@
+-- Model valuation of each listing, written by scripts/value-listings.ts with the service role
+ALTER TABLE public.properties
+  ADD COLUMN estimated_price NUMERIC CHECK (estimated_price > 0),
+  ADD COLUMN valuation_model_version TEXT,
+  ADD COLUMN valued_at TIMESTAMP WITH TIME ZONE;
+
+-- Asking price vs the estimate in percent: negative is underpriced, positive overpriced.
+-- Generated so a price change moves the score without re-running the model.
+ALTER TABLE public.properties
+  ADD COLUMN deal_score NUMERIC GENERATED ALWAYS AS (
+    round((price - estimated_price) / estimated_price * 100, 1)
+  ) STORED;
+
+-- Create indexes for better performance
+CREATE INDEX idx_properties_deal_score ON public.properties (deal_score) WHERE status = 'available';
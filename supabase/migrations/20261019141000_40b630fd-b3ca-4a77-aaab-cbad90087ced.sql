@@ -0,0 +1,158 @@
+-- Create tracked homes table: owners follow their own home's model value over time
+CREATE TABLE public.tracked_homes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 120),
+  -- Same shape as a predict-price request
+  input JSONB NOT NULL,
+  -- Notify when the value has moved this many percent since the last alert
+  alert_threshold_percent NUMERIC NOT NULL DEFAULT 5 CHECK (alert_threshold_percent BETWEEN 1 AND 50),
+  -- Value the next change is measured from: the first valuation, then the value at each alert
+  alert_baseline_price DECIMAL(15,2),
+  latest_price DECIMAL(15,2),
+  last_valued_at TIMESTAMP WITH TIME ZONE,
+  paused BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Value time series, one row per valuation run
+CREATE TABLE public.home_valuations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  home_id UUID NOT NULL REFERENCES public.tracked_homes(id) ON DELETE CASCADE,
+  estimated_price DECIMAL(15,2) NOT NULL,
+  price_min DECIMAL(15,2) NOT NULL,
+  price_max DECIMAL(15,2) NOT NULL,
+  model_version TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.tracked_homes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.home_valuations ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for tracked homes
+CREATE POLICY "Users can view their own tracked homes" 
+ON public.tracked_homes 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tracked homes" 
+ON public.tracked_homes 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tracked homes" 
+ON public.tracked_homes 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tracked homes" 
+ON public.tracked_homes 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Valuations are inserted by the home-values function only
+CREATE POLICY "Users can view valuations of their own tracked homes" 
+ON public.home_valuations 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tracked_homes h
+    WHERE h.id = home_id AND h.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_tracked_homes_updated_at
+  BEFORE UPDATE ON public.tracked_homes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Home value alerts get their own notification type and setting
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('property_match', 'price_change', 'new_listing', 'general', 'home_value'));
+
+ALTER TABLE public.profiles
+  ALTER COLUMN notification_settings
+  SET DEFAULT '{"email": true, "push": true, "in_app": true, "price_change": true, "property_match": true, "new_listing": true, "home_value": true}';
+
+-- Keep the home's latest value current and alert the owner once it has moved past their threshold
+CREATE OR REPLACE FUNCTION public.record_home_valuation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  home public.tracked_homes;
+  change_percent NUMERIC;
+BEGIN
+  SELECT * INTO home FROM public.tracked_homes WHERE id = NEW.home_id;
+
+  UPDATE public.tracked_homes
+  SET latest_price = NEW.estimated_price,
+      last_valued_at = NEW.created_at,
+      alert_baseline_price = COALESCE(alert_baseline_price, NEW.estimated_price)
+  WHERE id = NEW.home_id;
+
+  IF home.alert_baseline_price IS NULL OR home.alert_baseline_price = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  change_percent := (NEW.estimated_price - home.alert_baseline_price) / home.alert_baseline_price * 100;
+  IF abs(change_percent) < home.alert_threshold_percent THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.tracked_homes SET alert_baseline_price = NEW.estimated_price WHERE id = NEW.home_id;
+
+  IF public.wants_notification(home.user_id, 'home_value') THEN
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      home.user_id,
+      CASE WHEN change_percent > 0 THEN 'Your home''s value went up' ELSE 'Your home''s value went down' END,
+      format(
+        '%s is now estimated at $%s, %s%s%% since $%s.',
+        home.name,
+        to_char(NEW.estimated_price, 'FM999,999,999,990'),
+        CASE WHEN change_percent > 0 THEN '+' ELSE '' END,
+        round(change_percent, 1),
+        to_char(home.alert_baseline_price, 'FM999,999,999,990')
+      ),
+      'home_value'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_home_valuation
+  AFTER INSERT ON public.home_valuations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_home_valuation();
+
+-- Daily job; the home-values function revalues each home once a week. Needs the project
+-- URL and service role key in Vault as `project_url` and `service_role_key`.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'revalue-tracked-homes',
+  '0 6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/home-values',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"scheduled": true}'::jsonb
+  )
+  $$
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_tracked_homes_user ON public.tracked_homes (user_id);
+CREATE INDEX idx_tracked_homes_due ON public.tracked_homes (last_valued_at) WHERE NOT paused;
+CREATE INDEX idx_home_valuations_home ON public.home_valuations (home_id, created_at);
@@ -0,0 +1,112 @@
+-- Saved search filters are written by clients, and saved_search_matches_property() runs inside
+-- the trigger on every listing insert and update. A filter that fails to cast there would make
+-- every listing write fail, so filters are normalised on save and matched with safe casts.
+
+-- NULL instead of an error for anything that isn't a plain decimal number
+CREATE OR REPLACE FUNCTION public.try_numeric(value TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN value ~ '^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d{1,3})?\s*$' THEN value::numeric END;
+$$;
+
+-- Mirrors normalizeSavedSearchFilters() in src/lib/savedSearches.ts: counts and areas become
+-- whole-number strings ('' when unusable), malformed price ranges and amenity lists are dropped
+CREATE OR REPLACE FUNCTION public.normalize_saved_search_filters(filters JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  result JSONB := CASE WHEN jsonb_typeof(filters) = 'object' THEN filters ELSE '{}'::jsonb END;
+  field TEXT;
+  amount NUMERIC;
+BEGIN
+  FOREACH field IN ARRAY ARRAY['bedrooms', 'bathrooms', 'minArea', 'maxArea'] LOOP
+    CONTINUE WHEN NOT result ? field;
+    amount := public.try_numeric(result->>field);
+    result := jsonb_set(
+      result,
+      ARRAY[field],
+      to_jsonb(CASE WHEN amount >= 0 AND amount < 1000000000 THEN trunc(amount)::text ELSE '' END)
+    );
+  END LOOP;
+
+  FOREACH field IN ARRAY ARRAY['propertyType', 'city'] LOOP
+    IF result ? field AND jsonb_typeof(result->field) <> 'string' THEN
+      result := jsonb_set(result, ARRAY[field], '""');
+    END IF;
+  END LOOP;
+
+  IF result ? 'priceRange' AND NOT COALESCE(
+    CASE
+      WHEN jsonb_typeof(result->'priceRange') <> 'array' THEN false
+      WHEN jsonb_array_length(result->'priceRange') <> 2 THEN false
+      ELSE public.try_numeric(result->'priceRange'->>0) >= 0 AND public.try_numeric(result->'priceRange'->>1) >= 0
+    END,
+    false
+  ) THEN
+    result := result - 'priceRange';
+  END IF;
+
+  IF result ? 'amenities' AND jsonb_typeof(result->'amenities') <> 'array' THEN
+    result := result - 'amenities';
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_saved_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.filters := public.normalize_saved_search_filters(NEW.filters);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_saved_search_filters
+  BEFORE INSERT OR UPDATE OF filters ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_saved_search();
+
+UPDATE public.saved_searches SET filters = public.normalize_saved_search_filters(filters);
+
+ALTER TABLE public.saved_searches
+  ADD CONSTRAINT saved_searches_filters_normalized
+  CHECK (filters = public.normalize_saved_search_filters(filters));
+
+-- Mirrors buildPropertiesQuery() in src/lib/propertyFilters.ts. Never raises: a filter that
+-- still can't be read compares as NULL, and the whole result falls back to "no match".
+CREATE OR REPLACE FUNCTION public.saved_search_matches_property(s public.saved_searches, p public.properties)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    COALESCE(p.status, 'available') = 'available'
+    AND (
+      s.search_query = ''
+      OR p.title ILIKE '%' || s.search_query || '%'
+      OR p.city ILIKE '%' || s.search_query || '%'
+      OR p.address ILIKE '%' || s.search_query || '%'
+    )
+    AND (COALESCE(s.filters->>'propertyType', '') = '' OR p.property_type = s.filters->>'propertyType')
+    AND (COALESCE(s.filters->>'city', '') = '' OR p.city ILIKE '%' || (s.filters->>'city') || '%')
+    AND (COALESCE(s.filters->>'bedrooms', '') = '' OR p.bedrooms = public.try_numeric(s.filters->>'bedrooms'))
+    AND (COALESCE(s.filters->>'bathrooms', '') = '' OR p.bathrooms = public.try_numeric(s.filters->>'bathrooms'))
+    AND (COALESCE(s.filters->>'minArea', '') = '' OR p.area_sqft >= public.try_numeric(s.filters->>'minArea'))
+    AND (COALESCE(s.filters->>'maxArea', '') = '' OR p.area_sqft <= public.try_numeric(s.filters->>'maxArea'))
+    AND CASE
+      WHEN jsonb_typeof(s.filters->'amenities') IS DISTINCT FROM 'array' THEN true
+      WHEN jsonb_array_length(s.filters->'amenities') = 0 THEN true
+      ELSE COALESCE(p.amenities, '[]') @> (s.filters->'amenities')
+    END
+    AND p.price >= COALESCE(public.try_numeric(s.filters->'priceRange'->>0), 0)
+    AND p.price <= COALESCE(public.try_numeric(s.filters->'priceRange'->>1), 'Infinity'::numeric),
+    false
+  );
+$$;
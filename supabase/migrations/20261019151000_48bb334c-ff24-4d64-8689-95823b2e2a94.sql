@@ -0,0 +1,43 @@
+-- Estimates are written by the value-listings function and scripts/value-listings.ts. A new listing, or an edit to
+-- anything the model reads, clears the estimate so the next run values the listing again.
+CREATE OR REPLACE FUNCTION public.clear_listing_valuation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (
+    NEW.property_type, NEW.area_sqft, NEW.bedrooms, NEW.bathrooms, NEW.city, NEW.state,
+    NEW.year_built, NEW.parking_spaces, NEW.furnished, NEW.pet_friendly, NEW.amenities
+  ) IS DISTINCT FROM (
+    OLD.property_type, OLD.area_sqft, OLD.bedrooms, OLD.bathrooms, OLD.city, OLD.state,
+    OLD.year_built, OLD.parking_spaces, OLD.furnished, OLD.pet_friendly, OLD.amenities
+  ) THEN
+    NEW.estimated_price := NULL;
+    NEW.valuation_model_version := NULL;
+    NEW.valued_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_listing_valuation
+  BEFORE INSERT OR UPDATE ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_listing_valuation();
+
+-- Values listings without an estimate from the current model every 15 minutes. Uses the
+-- same Vault secrets as revalue-tracked-homes.
+SELECT cron.schedule(
+  'value-listings',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/value-listings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
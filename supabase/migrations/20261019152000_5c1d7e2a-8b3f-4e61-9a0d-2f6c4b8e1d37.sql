@@ -0,0 +1,71 @@
+-- Track every chat message for rate limiting; each one can take several LLM calls
+CREATE TABLE public.chat_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.chat_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the property-chat function only
+CREATE POLICY "Users can view their own chat usage" 
+ON public.chat_usage 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Check and record a chat message against the user's limits: 100 messages a day
+-- and no more than 10 a minute. Unlike chat_messages, usage survives deleting a conversation.
+CREATE OR REPLACE FUNCTION public.consume_chat_quota(p_user_id UUID)
+RETURNS TABLE (allowed BOOLEAN, daily_limit INTEGER, remaining INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  limit_today INTEGER := 100;
+  used_today INTEGER;
+  recent INTEGER;
+  oldest_recent TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialize concurrent messages from the same user so counts can't race
+  PERFORM pg_advisory_xact_lock(hashtext('chat:' || p_user_id::text));
+
+  SELECT count(*) INTO used_today
+  FROM public.chat_usage
+  WHERE user_id = p_user_id AND created_at >= day_start;
+
+  IF used_today >= limit_today THEN
+    RETURN QUERY SELECT false, limit_today, 0,
+      ceil(extract(epoch FROM day_start + interval '1 day' - now()))::integer;
+    RETURN;
+  END IF;
+
+  -- Per-minute burst limit; wait until the oldest message in the window ages out
+  SELECT count(*), min(created_at) INTO recent, oldest_recent
+  FROM public.chat_usage
+  WHERE user_id = p_user_id AND created_at > now() - interval '1 minute';
+
+  IF recent >= 10 THEN
+    RETURN QUERY SELECT false, limit_today, limit_today - used_today,
+      greatest(1, ceil(extract(epoch FROM oldest_recent + interval '1 minute' - now())))::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.chat_usage (user_id) VALUES (p_user_id);
+
+  RETURN QUERY SELECT true, limit_today, limit_today - used_today - 1, 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_chat_quota(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Usage older than two days no longer affects any limit
+SELECT cron.schedule(
+  'prune-chat-usage',
+  '35 3 * * *',
+  $$DELETE FROM public.chat_usage WHERE created_at < now() - interval '2 days'$$
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_chat_usage_user ON public.chat_usage (user_id, created_at);
@@ -0,0 +1,4 @@
+-- Estimates are computed by the predict-price function; the only thing users may change
+-- on their own history is an estimate's name. Row access is still decided by the policies.
+REVOKE UPDATE ON public.price_predictions FROM anon, authenticated;
+GRANT UPDATE (name) ON public.price_predictions TO authenticated;
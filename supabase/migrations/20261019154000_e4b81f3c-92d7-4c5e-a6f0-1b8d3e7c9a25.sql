@@ -0,0 +1,6 @@
+-- Values and alert baselines are written by the home-values function and the
+-- record_home_valuation trigger. Users may only name, pause and set the alert threshold
+-- of their tracked homes. Row access is still decided by the policies.
+REVOKE INSERT, UPDATE ON public.tracked_homes FROM anon, authenticated;
+GRANT INSERT (user_id, name, input, alert_threshold_percent, paused) ON public.tracked_homes TO authenticated;
+GRANT UPDATE (name, paused, alert_threshold_percent) ON public.tracked_homes TO authenticated;
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Tests for src/lib and for the edge functions' shared code, which is written for Deno: the setup file
+// provides the Deno globals it uses and its esm.sh imports resolve to node_modules.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["supabase/functions/**/*.test.ts", "src/**/*.test.ts"],
+    setupFiles: ["supabase/functions/vitest.setup.ts"],
+  },
+});